@@ -1,32 +1,132 @@
+import { useEffect, useState } from "react";
+import { useInView } from "react-intersection-observer";
+
+import { Input } from "@/components/ui";
 import { useToast } from "@/components/ui/use-toast";
 import { Loader, UserCard } from "@/components/shared";
-import { useGetUsers } from "@/lib/react-query/queries";
+import SuggestedUsers from "@/components/shared/SuggestedUsers";
+import { useGetUsers, useSearchUsers } from "@/lib/react-query/queries";
+import { UserSearchSort } from "@/lib/appwrite/api";
+import useDebounce from "@/hooks/useDebounce";
+
+const SORT_OPTIONS: { value: UserSearchSort; label: string }[] = [
+  { value: "relevance", label: "Relevance" },
+  { value: "followers", label: "Followers" },
+  { value: "newest", label: "Newest" },
+];
 
 const AllUsers = () => {
   const { toast } = useToast();
+  const { ref, inView } = useInView();
+
+  const [searchValue, setSearchValue] = useState("");
+  const [sort, setSort] = useState<UserSearchSort>("relevance");
+  const debouncedSearch = useDebounce(searchValue.trim(), 500);
 
   const { data: creators, isLoading, isError: isErrorCreators } = useGetUsers();
+  const {
+    data: searchedUsers,
+    isLoading: isSearchLoading,
+    isError: isErrorSearch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useSearchUsers(debouncedSearch, sort);
 
-  if (isErrorCreators) {
+  useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [inView, hasNextPage, isFetchingNextPage]);
+
+  if (isErrorCreators || isErrorSearch) {
     toast({ title: "Something went wrong." });
-    
+
     return;
   }
 
+  const isSearching = debouncedSearch !== "";
+  const searchResults = searchedUsers?.pages.flatMap((page) => page.documents) ?? [];
+
   return (
     <div className="common-container">
       <div className="user-container">
-        <h2 className="h3-bold md:h2-bold text-left w-full">All Users</h2>
-        {isLoading && !creators ? (
-          <Loader />
+        <div className="flex gap-1 px-4 w-full rounded-lg bg-dark-4">
+          <img
+            src="/assets/icons/search.svg"
+            width={24}
+            height={24}
+            alt="search"
+          />
+          <Input
+            type="text"
+            placeholder="Search people by name or @username"
+            className="explore-search"
+            value={searchValue}
+            onChange={(e) => setSearchValue(e.target.value)}
+          />
+        </div>
+
+        {isSearching ? (
+          <>
+            <div className="flex-between w-full">
+              <h2 className="h3-bold md:h2-bold text-left">Results</h2>
+              <div className="flex gap-3">
+                {SORT_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    className={`small-medium ${
+                      sort === option.value ? "text-light-1" : "text-light-3"
+                    }`}
+                    onClick={() => setSort(option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {isSearchLoading ? (
+              <Loader />
+            ) : searchResults.length === 0 ? (
+              <p className="text-light-4 mt-10 text-center w-full">No users found</p>
+            ) : (
+              <ul className="user-grid">
+                {searchResults.map((result) => (
+                  <li key={result.$id} className="flex-1 min-w-[200px] w-full">
+                    <UserCard user={result} />
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {hasNextPage && (
+              <div ref={ref} className="mt-10">
+                <Loader />
+              </div>
+            )}
+          </>
         ) : (
-          <ul className="user-grid">
-            {creators?.documents.map((creator) => (
-              <li key={creator?.$id} className="flex-1 min-w-[200px] w-full  ">
-                <UserCard user={creator} />
-              </li>
-            ))}
-          </ul>
+          <>
+            <h2 className="h3-bold md:h2-bold text-left w-full">Suggested for you</h2>
+            <SuggestedUsers
+              limit={6}
+              listClassName="user-grid"
+              itemClassName="flex-1 min-w-[200px] w-full"
+            />
+
+            <h2 className="h3-bold md:h2-bold text-left w-full">All Users</h2>
+            {isLoading && !creators ? (
+              <Loader />
+            ) : (
+              <ul className="user-grid">
+                {creators?.documents.map((creator) => (
+                  <li key={creator?.$id} className="flex-1 min-w-[200px] w-full  ">
+                    <UserCard user={creator} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
         )}
       </div>
     </div>
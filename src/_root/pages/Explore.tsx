@@ -1,21 +1,30 @@
 import { useEffect, useState } from "react";
 import { useInView } from "react-intersection-observer";
+import { Models } from "appwrite";
 
 import { Input } from "@/components/ui";
 import useDebounce from "@/hooks/useDebounce";
 import { GridPostList, Loader } from "@/components/shared";
-import { useGetPosts, useSearchPosts } from "@/lib/react-query/queries";
+import PostSearchFilterBar from "@/components/shared/PostSearchFilterBar";
+import SearchHistoryPanel from "@/components/shared/SearchHistoryPanel";
+import { useUserContext } from "@/context/AuthContext";
+import usePostSearchFilters from "@/hooks/usePostSearchFilters";
+import {
+  useGetPosts,
+  useRecordRecentSearch,
+  useSearchPosts,
+} from "@/lib/react-query/queries";
 
 export type SearchResultProps = {
   isSearchFetching: boolean;
-  searchedPosts: any;
+  searchedPosts: Models.Document[];
 };
 
 const SearchResults = ({ isSearchFetching, searchedPosts }: SearchResultProps) => {
   if (isSearchFetching) {
     return <Loader />;
-  } else if (searchedPosts && searchedPosts.documents.length > 0) {
-    return <GridPostList posts={searchedPosts.documents} />;
+  } else if (searchedPosts.length > 0) {
+    return <GridPostList posts={searchedPosts} />;
   } else {
     return (
       <p className="text-light-4 mt-10 text-center w-full">No results found</p>
@@ -25,17 +34,41 @@ const SearchResults = ({ isSearchFetching, searchedPosts }: SearchResultProps) =
 
 const Explore = () => {
   const { ref, inView } = useInView();
-  const { data: posts, fetchNextPage, hasNextPage } = useGetPosts();
+  const { user } = useUserContext();
+  const { data: posts, fetchNextPage, hasNextPage, isFetchingNextPage } = useGetPosts();
+  const { mutate: recordRecentSearch } = useRecordRecentSearch();
 
   const [searchValue, setSearchValue] = useState("");
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
   const debouncedSearch = useDebounce(searchValue, 500);
-  const { data: searchedPosts, isFetching: isSearchFetching } = useSearchPosts(debouncedSearch);
+  const { filters, hasActiveFilters } = usePostSearchFilters();
+  const {
+    data: searchedPosts,
+    isLoading: isSearchFetching,
+    fetchNextPage: fetchNextSearchPage,
+    hasNextPage: hasNextSearchPage,
+    isFetchingNextPage: isFetchingNextSearchPage,
+  } = useSearchPosts(debouncedSearch, filters);
+  // Whitespace alone never runs a search, so it shows the regular grid.
+  const isSearching = searchValue.trim() !== "";
 
   useEffect(() => {
-    if (inView && !searchValue) {
-      fetchNextPage();
+    if (!inView) return;
+
+    if (!isSearching) {
+      if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+    } else if (hasNextSearchPage && !isFetchingNextSearchPage) {
+      fetchNextSearchPage();
     }
-  }, [inView, searchValue]);
+  }, [
+    inView,
+    isSearching,
+    hasNextPage,
+    isFetchingNextPage,
+    hasNextSearchPage,
+    isFetchingNextSearchPage,
+  ]);
 
   if (!posts)
     return (
@@ -44,7 +77,14 @@ const Explore = () => {
       </div>
     );
 
-  const shouldShowSearchResults = searchValue !== "";
+  // Only settled searches are remembered, not every debounced keystroke.
+  const rememberSearch = () => {
+    if (isSearching) {
+      recordRecentSearch({ userId: user.id, searchTerm: searchValue });
+    }
+  };
+
+  const shouldShowSearchResults = isSearching;
   const shouldShowPosts = !shouldShowSearchResults && 
     posts.pages.every((item) => item.documents.length === 0);
 
@@ -52,45 +92,71 @@ const Explore = () => {
     <div className="explore-container">
       <div className="explore-inner_container">
         <h2 className="h3-bold md:h2-bold w-full">Search Posts</h2>
-        <div className="flex gap-1 px-4 w-full rounded-lg bg-dark-4">
-          <img
-            src="/assets/icons/search.svg"
-            width={24}
-            height={24}
-            alt="search"
-          />
-          <Input
-            type="text"
-            placeholder="Search"
-            className="explore-search"
-            value={searchValue}
-            onChange={(e) => {
-              const { value } = e.target;
-              setSearchValue(value);
-            }}
-          />
+        <div className="relative w-full">
+          <div className="flex gap-1 px-4 w-full rounded-lg bg-dark-4">
+            <img
+              src="/assets/icons/search.svg"
+              width={24}
+              height={24}
+              alt="search"
+            />
+            <Input
+              type="text"
+              placeholder="Search"
+              className="explore-search"
+              value={searchValue}
+              onChange={(e) => {
+                const { value } = e.target;
+                setSearchValue(value);
+              }}
+              onFocus={() => setIsSearchFocused(true)}
+              onBlur={() => {
+                setIsSearchFocused(false);
+                rememberSearch();
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") rememberSearch();
+              }}
+            />
+          </div>
+          {isSearchFocused && !isSearching && (
+            <div className="absolute left-0 right-0 top-full mt-2 z-50 rounded-lg border border-dark-4 bg-dark-3 shadow-lg">
+              <SearchHistoryPanel onSelectTerm={setSearchValue} />
+            </div>
+          )}
         </div>
       </div>
 
       <div className="flex-between w-full max-w-5xl mt-16 mb-7">
         <h3 className="body-bold md:h3-bold">Popular Today</h3>
 
-        <div className="flex-center gap-3 bg-dark-3 rounded-xl px-4 py-2 cursor-pointer">
-          <p className="small-medium md:base-medium text-light-2">All</p>
+        <button
+          type="button"
+          className="flex-center gap-3 bg-dark-3 rounded-xl px-4 py-2 cursor-pointer"
+          onClick={() => setShowFilters((prev) => !prev)}>
+          <p className="small-medium md:base-medium text-light-2">
+            {hasActiveFilters ? "Filtered" : "All"}
+          </p>
           <img
             src="/assets/icons/filter.svg"
             width={20}
             height={20}
             alt="filter"
           />
-        </div>
+        </button>
       </div>
 
+      {showFilters && (
+        <div className="w-full max-w-5xl mb-7">
+          <PostSearchFilterBar />
+        </div>
+      )}
+
       <div className="flex flex-wrap gap-9 w-full max-w-5xl">
         {shouldShowSearchResults ? (
           <SearchResults
             isSearchFetching={isSearchFetching}
-            searchedPosts={searchedPosts}
+            searchedPosts={searchedPosts?.pages.flatMap((page) => page.documents) ?? []}
           />
         ) : shouldShowPosts ? (
           <p className="text-light-4 mt-10 text-center w-full">End of posts</p>
@@ -101,7 +167,7 @@ const Explore = () => {
         )}
       </div>
 
-      {hasNextPage && !searchValue && (
+      {(isSearching ? hasNextSearchPage : hasNextPage) && (
         <div ref={ref} className="mt-10">
           <Loader />
         </div>
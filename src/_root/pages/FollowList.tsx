@@ -0,0 +1,95 @@
+import { useEffect, useMemo, useState } from "react";
+import { useInView } from "react-intersection-observer";
+
+import { Input } from "@/components/ui";
+import { Loader, UserCard } from "@/components/shared";
+import { useUserContext } from "@/context/AuthContext";
+import { useGetFollowList } from "@/lib/react-query/queries";
+import { FollowListType } from "@/lib/appwrite/api";
+import useDebounce from "@/hooks/useDebounce";
+
+type FollowListProps = {
+  userId: string;
+  type: FollowListType;
+};
+
+const FollowList = ({ userId, type }: FollowListProps) => {
+  const { user } = useUserContext();
+  const { ref, inView } = useInView();
+  const [searchValue, setSearchValue] = useState("");
+  const debouncedSearch = useDebounce(searchValue.trim().toLowerCase(), 300);
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useGetFollowList(userId, type, user.id);
+
+  useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [inView, hasNextPage, isFetchingNextPage]);
+
+  const followsYou = useMemo(
+    () => new Set(data?.pages.flatMap((page) => page.followsYou) ?? []),
+    [data]
+  );
+
+  // The list is filtered over the pages loaded so far; the sentinel below
+  // keeps pulling pages in while searching.
+  const users = useMemo(() => {
+    const loaded = data?.pages.flatMap((page) => page.users) ?? [];
+
+    if (!debouncedSearch) return loaded;
+
+    return loaded.filter(
+      (listed) =>
+        listed.name?.toLowerCase().includes(debouncedSearch) ||
+        listed.username?.toLowerCase().includes(debouncedSearch)
+    );
+  }, [data, debouncedSearch]);
+
+  const emptyMessage = debouncedSearch
+    ? "No matching users"
+    : type === "followers"
+    ? "No followers yet"
+    : "Not following anyone yet";
+
+  return (
+    <div className="flex flex-col gap-6 w-full max-w-5xl">
+      <div className="flex gap-1 px-4 w-full rounded-lg bg-dark-4">
+        <img
+          src="/assets/icons/search.svg"
+          width={24}
+          height={24}
+          alt="search"
+        />
+        <Input
+          type="text"
+          placeholder={type === "followers" ? "Search followers" : "Search following"}
+          className="explore-search"
+          value={searchValue}
+          onChange={(e) => setSearchValue(e.target.value)}
+        />
+      </div>
+
+      {isLoading ? (
+        <Loader />
+      ) : users.length === 0 && !hasNextPage ? (
+        <p className="text-light-4">{emptyMessage}</p>
+      ) : (
+        <ul className="user-grid">
+          {users.map((listed) => (
+            <li key={listed.$id} className="flex-1 min-w-[200px] w-full">
+              <UserCard user={listed} followsYou={followsYou.has(listed.$id)} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <div ref={ref} className="mt-4">
+          <Loader />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FollowList;
@@ -0,0 +1,109 @@
+import { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { useInView } from "react-intersection-observer";
+
+import { Button } from "@/components/ui";
+import { Loader } from "@/components/shared";
+import { useToast } from "@/components/ui/use-toast";
+import { useUserContext } from "@/context/AuthContext";
+import {
+  useApproveFollowRequest,
+  useDeclineFollowRequest,
+  useGetFollowRequests,
+} from "@/lib/react-query/queries";
+
+const FollowRequests = () => {
+  const { user } = useUserContext();
+  const { toast } = useToast();
+  const { ref, inView } = useInView();
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useGetFollowRequests(user.id);
+  const requesters = data?.pages.flatMap((page) => page.requesters) ?? [];
+  const approveMutation = useApproveFollowRequest();
+  const declineMutation = useDeclineFollowRequest();
+  const isResponding = approveMutation.isLoading || declineMutation.isLoading;
+
+  useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [inView, hasNextPage, isFetchingNextPage]);
+
+  const handleApprove = async (requesterId: string) => {
+    try {
+      await approveMutation.mutateAsync(requesterId);
+    } catch (error) {
+      toast({ title: "Could not approve request. Please try again." });
+    }
+  };
+
+  const handleDecline = async (requesterId: string) => {
+    try {
+      await declineMutation.mutateAsync(requesterId);
+    } catch (error) {
+      toast({ title: "Could not decline request. Please try again." });
+    }
+  };
+
+  if (isLoading)
+    return (
+      <div className="flex-center w-full h-full">
+        <Loader />
+      </div>
+    );
+
+  if (requesters.length === 0 && !hasNextPage) {
+    return <p className="text-light-4">No pending follow requests</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-5xl">
+      <ul className="flex flex-col gap-4 w-full">
+        {requesters.map((requester) => (
+          <li
+            key={requester.$id}
+            className="flex-between gap-4 bg-dark-2 rounded-xl border border-dark-4 px-5 py-4">
+            <Link to={`/profile/${requester.$id}`} className="flex items-center gap-3">
+              <img
+                src={requester.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                alt="requester"
+                className="rounded-full w-12 h-12"
+              />
+              <div className="flex flex-col">
+                <p className="base-medium text-light-1 line-clamp-1">{requester.name}</p>
+                <p className="small-regular text-light-3 line-clamp-1">
+                  @{requester.username}
+                </p>
+              </div>
+            </Link>
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                className="shad-button_primary px-5"
+                disabled={isResponding}
+                onClick={() => handleApprove(requester.$id)}>
+                Approve
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                className="shad-button_dark_4 px-5"
+                disabled={isResponding}
+                onClick={() => handleDecline(requester.$id)}>
+                Decline
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hasNextPage && (
+        <div ref={ref} className="mt-10">
+          <Loader />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FollowRequests;
@@ -1,22 +1,67 @@
+import { useEffect, useState } from "react";
 import { Models } from "appwrite";
+import { useInView } from "react-intersection-observer";
 
-import { Loader, PostCard, UserCard } from "@/components/shared";
-import { useGetRecentPosts, useGetUsers } from "@/lib/react-query/queries";
+import { Loader, PostCard } from "@/components/shared";
+import SuggestedUsers from "@/components/shared/SuggestedUsers";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  useGetCurrentUser,
+  useGetFollowingIds,
+  useGetFollowingPosts,
+  useGetRankedFeed,
+  useGetRecentPosts,
+} from "@/lib/react-query/queries";
+
+type FeedTab = "for-you" | "following" | "everyone";
+
+const PostFeed = ({ posts }: { posts: Models.Document[] }) => (
+  <ul className="flex flex-col flex-1 gap-9 w-full ">
+    {posts.map((post: Models.Document) => (
+      <li key={post.$id} className="flex justify-center w-full">
+        <PostCard post={post} />
+      </li>
+    ))}
+  </ul>
+);
 
 const Home = () => {
+  const { ref, inView } = useInView();
+  const [feedTab, setFeedTab] = useState<FeedTab>("for-you");
 
+  const { data: currentUser } = useGetCurrentUser();
+  const { data: followingIds } = useGetFollowingIds(currentUser?.$id);
   const {
     data: posts,
     isLoading: isPostLoading,
     isError: isErrorPosts,
-  } = useGetRecentPosts();
+  } = useGetRecentPosts(currentUser?.followedTags);
+  const {
+    data: rankedPosts,
+    isLoading: isRankedLoading,
+    isError: isErrorRanked,
+    fetchNextPage: fetchMoreRanked,
+    hasNextPage: hasMoreRanked,
+  } = useGetRankedFeed(currentUser);
   const {
-    data: creators,
-    isLoading: isUserLoading,
-    isError: isErrorCreators,
-  } = useGetUsers(10);
+    data: followingPosts,
+    isLoading: isFollowingLoading,
+    isError: isErrorFollowing,
+    fetchNextPage: fetchMoreFollowing,
+    hasNextPage: hasMoreFollowing,
+  } = useGetFollowingPosts(followingIds);
 
-  if (isErrorPosts || isErrorCreators) {
+  useEffect(() => {
+    if (!inView) return;
+
+    if (feedTab === "for-you") {
+      fetchMoreRanked();
+    } else if (feedTab === "following") {
+      fetchMoreFollowing();
+    }
+  }, [inView, feedTab]);
+
+  if (isErrorPosts || isErrorRanked || isErrorFollowing) {
     return (
       <div className="flex flex-1">
         <div className="home-container">
@@ -29,38 +74,81 @@ const Home = () => {
     );
   }
 
+  const rankedFeed = rankedPosts?.pages.flatMap((page) => page.documents) ?? [];
+  const followingFeed =
+    followingPosts?.pages.flatMap((page) => page.documents) ?? [];
+
   return (
     <div className="flex flex-1">
       <div className="home-container">
         <div className="home-posts">
           <h2 className="h3-bold md:h2-bold text-left w-full">Home Feed</h2>
-          {isPostLoading && !posts ? (
-            <Loader />
-          ) : (
-            <ul className="flex flex-col flex-1 gap-9 w-full ">
-              {posts?.documents.map((post: Models.Document) => (
-                <li key={post.$id} className="flex justify-center w-full">
-                  <PostCard post={post} />
-                </li>
-              ))}
-            </ul>
-          )}
+          <Tabs
+            value={feedTab}
+            onValueChange={(value) => setFeedTab(value as FeedTab)}
+            className="w-full">
+            <TabsList className="w-full bg-dark-3">
+              <TabsTrigger value="for-you" className="flex-1">
+                For you
+              </TabsTrigger>
+              <TabsTrigger value="following" className="flex-1">
+                Following
+              </TabsTrigger>
+              <TabsTrigger value="everyone" className="flex-1">
+                Everyone
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="for-you" className="mt-9">
+              {!currentUser || (isRankedLoading && !rankedPosts) ? (
+                <Loader />
+              ) : rankedFeed.length === 0 ? (
+                <p className="text-light-4 mt-10 text-center w-full">
+                  No recent posts yet
+                </p>
+              ) : (
+                <PostFeed posts={rankedFeed} />
+              )}
+
+              {hasMoreRanked && (
+                <div ref={ref} className="mt-10">
+                  <Loader />
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="following" className="mt-9">
+              {!followingIds || (isFollowingLoading && !followingPosts) ? (
+                <Loader />
+              ) : followingFeed.length === 0 ? (
+                <p className="text-light-4 mt-10 text-center w-full">
+                  Posts from people you follow will show up here
+                </p>
+              ) : (
+                <PostFeed posts={followingFeed} />
+              )}
+
+              {hasMoreFollowing && (
+                <div ref={ref} className="mt-10">
+                  <Loader />
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="everyone" className="mt-9">
+              {isPostLoading && !posts ? (
+                <Loader />
+              ) : (
+                <PostFeed posts={posts?.documents ?? []} />
+              )}
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
 
       <div className="home-creators">
-        <h3 className="h3-bold text-light-1">Top Creators</h3>
-        {isUserLoading && !creators ? (
-          <Loader />
-        ) : (
-          <ul className="grid 2xl:grid-cols-2 gap-6">
-            {creators?.documents.map((creator) => (
-              <li key={creator?.$id}>
-                <UserCard user={creator} />
-              </li>
-            ))}
-          </ul>
-        )}
+        <h3 className="h3-bold text-light-1">Who to follow</h3>
+        <SuggestedUsers listClassName="grid 2xl:grid-cols-2 gap-6" />
       </div>
     </div>
   );
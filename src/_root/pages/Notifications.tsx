@@ -0,0 +1,98 @@
+import { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { useInView } from "react-intersection-observer";
+
+import { Loader } from "@/components/shared";
+import { useUserContext } from "@/context/AuthContext";
+import { multiFormatDateString } from "@/lib/utils";
+import {
+  useGetNotifications,
+  useMarkNotificationsRead,
+} from "@/lib/react-query/queries";
+
+const Notifications = () => {
+  const { user } = useUserContext();
+  const { ref, inView } = useInView();
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useGetNotifications(user.id);
+  const { mutate: markRead } = useMarkNotificationsRead();
+
+  const notifications = data?.pages.flatMap((page) => page.notifications) ?? [];
+
+  useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [inView, hasNextPage, isFetchingNextPage]);
+
+  // Loaded notifications count as seen; they stay highlighted until the page
+  // is opened again.
+  useEffect(() => {
+    const unreadIds = notifications
+      .filter((notification) => !notification.isRead)
+      .map((notification) => notification.notificationId);
+
+    if (unreadIds.length > 0) markRead(unreadIds);
+  }, [data]);
+
+  return (
+    <div className="saved-container">
+      <div className="flex gap-2 w-full max-w-5xl">
+        <img
+          src="/assets/icons/chat.svg"
+          width={36}
+          height={36}
+          alt="notifications"
+          className="invert-white"
+        />
+        <h2 className="h3-bold md:h2-bold text-left w-full">Notifications</h2>
+      </div>
+
+      {isLoading ? (
+        <Loader />
+      ) : notifications.length === 0 && !hasNextPage ? (
+        <p className="text-light-4">No notifications yet</p>
+      ) : (
+        <ul className="flex flex-col gap-4 w-full max-w-5xl">
+          {notifications.map((notification) => (
+            <li key={notification.notificationId}>
+              <Link
+                to={`/posts/${notification.postId}`}
+                className={`flex items-center gap-3 rounded-xl border px-5 py-4 ${
+                  notification.isRead
+                    ? "bg-dark-2 border-dark-4"
+                    : "bg-dark-3 border-primary-500"
+                }`}>
+                <img
+                  src={
+                    notification.actor?.imageUrl ||
+                    "/assets/icons/profile-placeholder.svg"
+                  }
+                  alt="actor"
+                  className="rounded-full w-12 h-12"
+                />
+                <div className="flex flex-col">
+                  <p className="base-regular text-light-1">
+                    <span className="base-semibold">
+                      {notification.actor?.name ?? "Someone"}
+                    </span>{" "}
+                    mentioned you in a {notification.commentId ? "comment" : "post"}
+                  </p>
+                  <p className="small-regular text-light-3">
+                    {multiFormatDateString(notification.createdAt)}
+                  </p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <div ref={ref} className="mt-10">
+          <Loader />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Notifications;
@@ -1,13 +1,32 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui";
 import { Loader } from "@/components/shared";
 import { GridPostList, PostStats } from "@/components/shared";
-import { useGetPostById, useGetUserPosts, useDeletePost as useDeletePostMutation } from "@/lib/react-query/queries";
-import { multiFormatDateString } from "@/lib/utils";
+import {
+  useGetPostById,
+  useGetUserPosts,
+  useIsFollowingQuery,
+  useGetUserRelationship,
+  useGetPostComments,
+  useEditComment,
+  useDeleteComment,
+  useDeletePost as useDeletePostMutation,
+} from "@/lib/react-query/queries";
+import {
+  buildCommentThreads,
+  getMediaFileIds,
+  getPostMedia,
+  multiFormatDateString,
+  normalizeTag,
+  parseMentions,
+} from "@/lib/utils";
 import { useUserContext } from "@/context/AuthContext";
-import { getCommentsData, CommentData, deleteComment, editComment } from "@/lib/appwrite/api";
+import { CommentData, CommentSort } from "@/lib/appwrite/api";
 import CommentRender from "@/components/shared/CommentRender";
+import CommentSortToggle from "@/components/shared/CommentSortToggle";
+import MediaCarousel from "@/components/shared/MediaCarousel";
+import MentionText from "@/components/shared/MentionText";
 
 const PostDetails = () => {
   const navigate = useNavigate();
@@ -15,63 +34,54 @@ const PostDetails = () => {
   const { user } = useUserContext();
 
   const { data: post, isLoading } = useGetPostById(id);
+  const isPrivateCreator = !!post?.creator.isPrivate && post.creator.$id !== user.id;
+  const { data: isFollowingCreator = false, isInitialLoading: isFollowLoading } =
+    useIsFollowingQuery(isPrivateCreator ? post.creator.$id : "");
+  const { data: relationship } = useGetUserRelationship(
+    post && post.creator.$id !== user.id ? post.creator.$id : undefined
+  );
+  const isBlocked = !!relationship && (relationship.isBlocked || relationship.isBlockedBy);
+  const canViewPost = !isBlocked && (!isPrivateCreator || isFollowingCreator);
   const { data: userPosts, isLoading: isUserPostLoading } = useGetUserPosts(post?.creator.$id);
   const { mutate: deletePost } = useDeletePostMutation();
 
   const relatedPosts = userPosts?.documents.filter((userPost) => userPost.$id !== id);
 
-  const [commentsData, setCommentsData] = useState<CommentData[]>([]);
-  const [isCommentsLoading, setIsCommentsLoading] = useState(true);
-  const postComments = commentsData.filter((comment) => comment.postId === id);
+  const [commentSort, setCommentSort] = useState<CommentSort>("oldest");
+  const {
+    data: comments,
+    isLoading: isCommentsLoading,
+    fetchNextPage: fetchMoreComments,
+    hasNextPage: hasMoreComments,
+  } = useGetPostComments(id, commentSort);
+  const { mutate: editComment } = useEditComment();
+  const { mutate: deleteComment } = useDeleteComment();
+  const postComments = buildCommentThreads(
+    comments?.pages.flatMap((page) => page.documents) ?? []
+  );
   const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<CommentData | null>(null);
 
-  useEffect(() => {
-    const fetchComments = async () => {
-      try {
-        const data = await getCommentsData();
-        setCommentsData(data);
-      } catch (error) {
-        console.error("Error fetching comments:", error);
-      } finally {
-        setIsCommentsLoading(false);
-      }
-    };
-
-    fetchComments();
-  }, [id]);
   const handleDeletePost = async () => {
     try {
-      await deletePost({ postId: id, imageId: post?.imageId });
+      await deletePost({
+        postId: id,
+        fileIds: getMediaFileIds(getPostMedia(post)),
+      });
       navigate(-1);
     } catch (error) {
       console.error("Error deleting post:", error);
     }
   };
-  const handleDeleteComment = async (commentId: string) => {
-    try {
-      await deleteComment(commentId);
-      const updatedCommentsData = commentsData.filter((comment) => comment.commentId !== commentId);
-      setCommentsData(updatedCommentsData);
-    } catch (error) {
-      console.error("Error deleting comment:", error);
-    }
+  const handleDeleteComment = (commentId: string) => {
+    if (!id) return;
+    deleteComment({ postId: id, commentId });
   };
 
-  const handleEditComment = async (commentId: string, updatedCommentText: string) => {
-    try {
-      const updatedComment = await editComment(commentId, {
-        commentText: updatedCommentText,
-      });
-
-      const updatedCommentsData = commentsData.map((comment) =>
-        comment.commentId === commentId ? updatedComment : comment
-      );
-      setCommentsData(updatedCommentsData);
-
-      setEditingCommentId(null);
-    } catch (error) {
-      console.error("Error editing comment:", error);
-    }
+  const handleEditComment = (commentId: string, updatedCommentText: string) => {
+    if (!id) return;
+    editComment({ postId: id, commentId, commentText: updatedCommentText });
+    setEditingCommentId(null);
   };
 
   const handleCancelEdit = () => {
@@ -94,12 +104,28 @@ const PostDetails = () => {
         </Button>
       </div>
 
-      {isLoading || !post ? (
+      {isLoading || isFollowLoading || !post ? (
         <Loader />
+      ) : isBlocked ? (
+        <div className="flex-center flex-col gap-2 w-full max-w-5xl py-10">
+          <p className="body-bold text-light-1">This post isn't available</p>
+        </div>
+      ) : !canViewPost ? (
+        <div className="flex-center flex-col gap-2 w-full max-w-5xl py-10">
+          <p className="body-bold text-light-1">This post is from a private account</p>
+          <Link
+            to={`/profile/${post.creator.$id}`}
+            className="small-regular text-primary-500">
+            Follow @{post.creator.username} to see their posts.
+          </Link>
+        </div>
       ) : (
         <div className="post_details-card flex flex-col md:flex-row items-stretch md:items-start justify-normal h-full">
           <div className="md:w-full xl:w-1/2 md:h-full">
-            <img src={post?.imageUrl} alt="creator" className="post_details-img md:w-full w-full object-cover h-full" />
+            <MediaCarousel
+              media={getPostMedia(post)}
+              imageClassName="post_details-img md:w-full w-full object-cover h-full"
+            />
           </div>
           <div className="post_details-info xl:w-1/2 md:full flex flex-col p-4 md:pl-6 overflow-auto h-full">
             <div className="flex-between w-full">
@@ -148,17 +174,23 @@ const PostDetails = () => {
             <hr className="border w-full border-slate-800" />
 
             <div className="flex flex-col flex-1 w-full small-medium lg:base-regular text-white">
-              <p>{post?.caption}</p>
+              <MentionText text={post?.caption} mentions={parseMentions(post?.mentions)} />
               <ul className="flex gap-1 mt-2">
                 {post?.tags.map((tag: string, index: string) => (
                   <li key={`${tag}${index}`} className="text-white small-regular">
-                    #{tag}
+                    <Link to={`/tags/${encodeURIComponent(normalizeTag(tag))}`}>#{tag}</Link>
                   </li>
                 ))}
               </ul>
             </div>
 
             <div className="comments-section mt-4 flex-grow overflow-auto md:h-full w-full justify-center scrollbar-hide">
+              <div className="flex-between w-full">
+                <p className="small-semibold text-light-3">
+                  {comments?.pages[0]?.total ?? 0} comments
+                </p>
+                <CommentSortToggle sort={commentSort} onChange={setCommentSort} />
+              </div>
               {isCommentsLoading ? (
                 <Loader />
               ) : (
@@ -173,15 +205,30 @@ const PostDetails = () => {
                     user={user}
                     handleEditButtonClick={handleEditButtonClick}
                     handleDeleteComment={handleDeleteComment}
+                    handleReplyButtonClick={setReplyTo}
                   />
                 ))}
                 </ul>
               )}
+              {hasMoreComments && (
+                <button
+                  type="button"
+                  className="small-medium text-light-3 mt-4"
+                  onClick={() => fetchMoreComments()}
+                >
+                  Load more comments
+                </button>
+              )}
             </div>
 
             <div className="w-full mt-4">
               <hr className="border w-full border-slate-800 mb-5" />
-              <PostStats post={post} userId={user.id} />
+              <PostStats
+                post={post}
+                userId={user.id}
+                replyTo={replyTo}
+                onCancelReply={() => setReplyTo(null)}
+              />
             </div>
           </div>
         </div>
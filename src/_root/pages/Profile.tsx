@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import {
   Route,
   Routes,
@@ -7,51 +8,78 @@ import {
   useLocation,
 } from "react-router-dom";
 import { Button } from "@/components/ui";
-import { LikedPosts } from "@/_root/pages";
+import { FollowList, FollowRequests, LikedPosts } from "@/_root/pages";
 import { useUserContext } from "@/context/AuthContext";
-import { useFollowUser, useGetUserById, useUnfollowUser, useIsFollowingQuery } from "@/lib/react-query/queries";
-import { useEffect, useState } from "react";
+import {
+  useFollowUser,
+  useGetUserById,
+  useUnfollowUser,
+  useIsFollowingQuery,
+  useHasRequestedFollow,
+  useGetUserRelationship,
+  useRecordProfileVisit,
+  useGetFollowersCount,
+  useGetFollowingsCount,
+} from "@/lib/react-query/queries";
+import { useToast } from "@/components/ui/use-toast";
 import { GridPostList, Loader } from "@/components/shared";
-import { getFollowersCount, getFollowingsCount } from "@/lib/appwrite/api";
+import UserActionsMenu from "@/components/shared/UserActionsMenu";
 
 interface StabBlockProps {
   value: string | number;
   label: string;
+  to?: string;
 }
 
-const StatBlock = ({ value, label }: StabBlockProps) => (
-  <div className="flex-center gap-2">
-    <p className="small-semibold lg:body-bold text-primary-500">{value}</p>
-    <p className="small-medium lg:base-medium text-light-2">{label}</p>
-  </div>
-);
+const PROFILE_VISIT_DELAY_MS = 1500;
+
+const StatBlock = ({ value, label, to }: StabBlockProps) => {
+  const content = (
+    <>
+      <p className="small-semibold lg:body-bold text-primary-500">{value}</p>
+      <p className="small-medium lg:base-medium text-light-2">{label}</p>
+    </>
+  );
+
+  return to ? (
+    <Link to={to} className="flex-center gap-2 hover:underline">
+      {content}
+    </Link>
+  ) : (
+    <div className="flex-center gap-2">{content}</div>
+  );
+};
 
 const Profile = () => {
   const { id } = useParams();
   const { user } = useUserContext();
   const { pathname } = useLocation();
   const { data: currentUser } = useGetUserById(id || "");
-  const [followersCount, setFollowersCount] = useState<number>(0);
-  const [followingsCount, setFollowingsCount] = useState<number>(0);
+  const { toast } = useToast();
+  // Left blank until loaded (or if loading fails) rather than showing 0.
+  const { data: followersCount } = useGetFollowersCount(currentUser?.$id);
+  const { data: followingsCount } = useGetFollowingsCount(currentUser?.$id);
   const isFollowingQuery = useIsFollowingQuery(id || "");
   const isFollowing = isFollowingQuery.data ?? false; 
+  const { data: relationship } = useGetUserRelationship(user.id !== id ? id : undefined);
+  const { data: hasRequested = false } = useHasRequestedFollow(
+    user.id !== id && !isFollowing ? id || "" : ""
+  );
+
+  const { mutate: recordProfileVisit } = useRecordProfileVisit();
+
+  // Only profiles that stay open count as visits, so clicking through several
+  // in a row writes the history once.
   useEffect(() => {
-    const fetchCounts = async () => {
-      try {
-        if (currentUser?.$id) {
-          const followers = await getFollowersCount(currentUser.$id);
-          const followings = await getFollowingsCount(currentUser.$id);
-          setFollowersCount(followers);
-          setFollowingsCount(followings);
-        }
-      } catch (error) {
-        console.error('Error fetching follower and following counts:', error);
-      }
-    };
-  
-    fetchCounts();
-  }, [currentUser]);
+    if (!id || !user.id || id === user.id) return;
 
+    const timer = setTimeout(
+      () => recordProfileVisit({ userId: user.id, profileId: id }),
+      PROFILE_VISIT_DELAY_MS
+    );
+
+    return () => clearTimeout(timer);
+  }, [id, user.id]);
 
   const followUserMutation = useFollowUser();
   const unfollowUserMutation = useUnfollowUser();
@@ -60,10 +88,10 @@ const Profile = () => {
     try {
       if (id) {
         await followUserMutation.mutateAsync(id); 
-        setFollowersCount((prevCount) => prevCount + 1); 
       }
     } catch (error) {
       console.error("Error following user:", error);
+      toast({ title: "Follow failed. Please try again." });
     }
   };
 
@@ -71,10 +99,10 @@ const Profile = () => {
     try {
       if (id) {
         await unfollowUserMutation.mutateAsync(id);
-        setFollowersCount((prevCount) => prevCount - 1);
       }
     } catch (error) {
       console.error("Error unfollowing user:", error);
+      toast({ title: "Unfollow failed. Please try again." });
     }
   };
 
@@ -86,6 +114,19 @@ const Profile = () => {
     );
   }
 
+  const isOwnProfile = currentUser.$id === user.id;
+  const canViewProfile = !currentUser.isPrivate || isOwnProfile || isFollowing;
+
+  if (relationship?.isBlockedBy) {
+    return (
+      <div className="profile-container">
+        <div className="flex-center flex-col gap-2 w-full max-w-5xl py-10">
+          <p className="body-bold text-light-1">This profile isn't available</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="profile-container">
       <div className="profile-inner_container">
@@ -109,8 +150,16 @@ const Profile = () => {
 
             <div className="flex gap-8 mt-10 items-center justify-center xl:justify-start flex-wrap z-20">
               <StatBlock value={currentUser.posts.length} label="Posts" />
-              <StatBlock value={followersCount} label="Followers" />
-              <StatBlock value={followingsCount} label="Following" />
+              <StatBlock
+                value={followersCount ?? "–"}
+                label="Followers"
+                to={`/profile/${currentUser.$id}/followers`}
+              />
+              <StatBlock
+                value={followingsCount ?? "–"}
+                label="Following"
+                to={`/profile/${currentUser.$id}/following`}
+              />
             </div>
 
             <p className="small-medium md:base-medium text-center xl:text-left mt-7 max-w-screen-sm">
@@ -130,20 +179,33 @@ const Profile = () => {
                 <p className="flex whitespace-nowrap small-medium">Edit Profile</p>
               </Link>
             </div>
-            <div className={`${user.id === id && "hidden"}`}>
+            {isOwnProfile && (
+              <Link
+                to="/settings"
+                className="h-12 bg-dark-4 px-5 text-light-1 flex-center gap-2 rounded-lg">
+                <p className="flex whitespace-nowrap small-medium">Settings</p>
+              </Link>
+            )}
+            <div className={`${(user.id === id || relationship?.isBlocked) && "hidden"}`}>
               <Button
                 type="button"
                 className={`shad-button_primary px-8 ${isFollowing ? "!bg-gray-900" : ""}`}
-                onClick={isFollowing ? handleUnfollow : handleFollow}
+                onClick={isFollowing || hasRequested ? handleUnfollow : handleFollow}
+                disabled={followUserMutation.isLoading || unfollowUserMutation.isLoading}
               >
-                {isFollowing ? "Unfollow" : "Follow"}
+                {isFollowing ? "Unfollow" : hasRequested ? "Requested" : "Follow"}
               </Button>
             </div>
+            {!isOwnProfile && (
+              <div className="flex-center">
+                <UserActionsMenu userId={currentUser.$id} username={currentUser.username} />
+              </div>
+            )}
           </div>
         </div>
       </div>
 
-      {currentUser.$id === user.id && (
+      {isOwnProfile && (
         <div className="flex max-w-5xl w-full">
           <Link
             to={`/profile/${id}`}
@@ -161,7 +223,7 @@ const Profile = () => {
           </Link>
           <Link
             to={`/profile/${id}/liked-posts`}
-            className={`profile-tab rounded-r-lg ${
+            className={`profile-tab ${!currentUser.isPrivate && "rounded-r-lg"} ${
               pathname === `/profile/${id}/liked-posts` && "!bg-dark-3"
             }`}
           >
@@ -173,18 +235,61 @@ const Profile = () => {
             />
             Liked Posts
           </Link>
+          {currentUser.isPrivate && (
+            <Link
+              to={`/profile/${id}/requests`}
+              className={`profile-tab rounded-r-lg ${
+                pathname === `/profile/${id}/requests` && "!bg-dark-3"
+              }`}
+            >
+              <img
+                src={"/assets/icons/people.svg"}
+                alt="requests"
+                width={20}
+                height={20}
+              />
+              Requests
+            </Link>
+          )}
         </div>
       )}
 
-      <Routes>
-        <Route
-          index
-          element={<GridPostList posts={currentUser.posts} showUser={false} />}
-        />
-        {currentUser.$id === user.id && (
-          <Route path="/liked-posts" element={<LikedPosts />} />
-        )}
-      </Routes>
+      {relationship?.isBlocked ? (
+        <div className="flex-center flex-col gap-2 w-full max-w-5xl py-10">
+          <p className="body-bold text-light-1">You blocked @{currentUser.username}</p>
+          <p className="small-regular text-light-3">
+            Unblock them from the menu to see their posts.
+          </p>
+        </div>
+      ) : canViewProfile ? (
+        <Routes>
+          <Route
+            index
+            element={<GridPostList posts={currentUser.posts} showUser={false} />}
+          />
+          <Route
+            path="/followers"
+            element={<FollowList userId={currentUser.$id} type="followers" />}
+          />
+          <Route
+            path="/following"
+            element={<FollowList userId={currentUser.$id} type="following" />}
+          />
+          {isOwnProfile && (
+            <Route path="/liked-posts" element={<LikedPosts />} />
+          )}
+          {isOwnProfile && (
+            <Route path="/requests" element={<FollowRequests />} />
+          )}
+        </Routes>
+      ) : (
+        <div className="flex-center flex-col gap-2 w-full max-w-5xl py-10">
+          <p className="body-bold text-light-1">This account is private</p>
+          <p className="small-regular text-light-3">
+            Follow this account to see their posts.
+          </p>
+        </div>
+      )}
       <Outlet />
     </div>
   );
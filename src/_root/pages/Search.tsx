@@ -0,0 +1,226 @@
+import { useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Models } from "appwrite";
+import { useInView } from "react-intersection-observer";
+
+import { GridPostList, Loader, UserCard } from "@/components/shared";
+import PostSearchFilterBar from "@/components/shared/PostSearchFilterBar";
+import SearchBar from "@/components/shared/SearchBar";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TagSearchResult } from "@/lib/appwrite/api";
+import { useUserContext } from "@/context/AuthContext";
+import usePostSearchFilters from "@/hooks/usePostSearchFilters";
+import {
+  useRecordRecentSearch,
+  useSearchPosts,
+  useSearchTags,
+  useSearchUsers,
+} from "@/lib/react-query/queries";
+
+type SearchTab = "top" | "posts" | "people" | "tags";
+
+const SEARCH_TABS: { value: SearchTab; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "posts", label: "Posts" },
+  { value: "people", label: "People" },
+  { value: "tags", label: "Tags" },
+];
+
+const TOP_PEOPLE_LIMIT = 3;
+const TOP_TAGS_LIMIT = 5;
+const TOP_POSTS_LIMIT = 6;
+
+const EmptyResults = () => (
+  <p className="text-light-4 mt-10 text-center w-full">No results found</p>
+);
+
+const PeopleList = ({ users }: { users: Models.Document[] }) => (
+  <ul className="user-grid">
+    {users.map((user) => (
+      <li key={user.$id} className="flex-1 min-w-[200px] w-full">
+        <UserCard user={user} />
+      </li>
+    ))}
+  </ul>
+);
+
+const TagList = ({ tags }: { tags: TagSearchResult[] }) => (
+  <ul className="flex flex-col gap-3 w-full">
+    {tags.map(({ tag, count }) => (
+      <li key={tag}>
+        <Link
+          to={`/tags/${encodeURIComponent(tag)}`}
+          className="flex-between bg-dark-2 rounded-xl border border-dark-4 px-5 py-4">
+          <span className="base-medium text-light-1">#{tag}</span>
+          <span className="small-regular text-light-3">
+            {count} {count === 1 ? "post" : "posts"}
+          </span>
+        </Link>
+      </li>
+    ))}
+  </ul>
+);
+
+const Search = () => {
+  const { ref, inView } = useInView();
+  const { user } = useUserContext();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q")?.trim() ?? "";
+  const tabParam = searchParams.get("tab") as SearchTab | null;
+  const tab: SearchTab = SEARCH_TABS.some((option) => option.value === tabParam)
+    ? tabParam!
+    : "top";
+
+  const { filters } = usePostSearchFilters();
+
+  const {
+    data: posts,
+    isLoading: isPostsLoading,
+    fetchNextPage: fetchNextPosts,
+    hasNextPage: hasNextPosts,
+    isFetchingNextPage: isFetchingNextPosts,
+  } = useSearchPosts(query, filters);
+  const { data: tags, isLoading: isTagsLoading } = useSearchTags(query);
+  const {
+    data: people,
+    isLoading: isPeopleLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useSearchUsers(query, "relevance");
+
+  const { mutate: recordRecentSearch } = useRecordRecentSearch();
+
+  useEffect(() => {
+    if (query && user.id) recordRecentSearch({ userId: user.id, searchTerm: query });
+  }, [query, user.id]);
+
+  useEffect(() => {
+    if (!inView) return;
+
+    if (tab === "people" && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    } else if (tab === "posts" && hasNextPosts && !isFetchingNextPosts) {
+      fetchNextPosts();
+    }
+  }, [tab, inView, hasNextPage, isFetchingNextPage, hasNextPosts, isFetchingNextPosts]);
+
+  const handleTabChange = (value: string) => {
+    const nextParams = new URLSearchParams(searchParams);
+
+    if (value === "top") {
+      nextParams.delete("tab");
+    } else {
+      nextParams.set("tab", value);
+    }
+
+    setSearchParams(nextParams);
+  };
+
+  const postResults = posts?.pages.flatMap((page) => page.documents) ?? [];
+  const peopleResults = people?.pages.flatMap((page) => page.documents) ?? [];
+  const tagResults = tags ?? [];
+  const isTopLoading = isPostsLoading || isPeopleLoading || isTagsLoading;
+  const hasTopResults =
+    postResults.length > 0 || peopleResults.length > 0 || tagResults.length > 0;
+
+  return (
+    <div className="explore-container">
+      <div className="explore-inner_container">
+        <h2 className="h3-bold md:h2-bold w-full">Search</h2>
+        <SearchBar initialValue={query} />
+      </div>
+
+      {!query ? (
+        <p className="text-light-4 mt-10 text-center w-full">
+          Search for posts, people and tags
+        </p>
+      ) : (
+        <Tabs value={tab} onValueChange={handleTabChange} className="w-full max-w-5xl mt-10">
+          <TabsList className="w-full bg-dark-3">
+            {SEARCH_TABS.map((option) => (
+              <TabsTrigger key={option.value} value={option.value} className="flex-1">
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value="top" className="mt-9 flex flex-col gap-10">
+            {isTopLoading ? (
+              <Loader />
+            ) : !hasTopResults ? (
+              <EmptyResults />
+            ) : (
+              <>
+                {peopleResults.length > 0 && (
+                  <section className="flex flex-col gap-4">
+                    <h3 className="body-bold md:h3-bold">People</h3>
+                    <PeopleList users={peopleResults.slice(0, TOP_PEOPLE_LIMIT)} />
+                  </section>
+                )}
+                {tagResults.length > 0 && (
+                  <section className="flex flex-col gap-4">
+                    <h3 className="body-bold md:h3-bold">Tags</h3>
+                    <TagList tags={tagResults.slice(0, TOP_TAGS_LIMIT)} />
+                  </section>
+                )}
+                {postResults.length > 0 && (
+                  <section className="flex flex-col gap-4">
+                    <h3 className="body-bold md:h3-bold">Posts</h3>
+                    <GridPostList posts={postResults.slice(0, TOP_POSTS_LIMIT)} />
+                  </section>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="posts" className="mt-9 flex flex-col gap-9">
+            <PostSearchFilterBar />
+
+            {isPostsLoading ? (
+              <Loader />
+            ) : postResults.length === 0 ? (
+              <EmptyResults />
+            ) : (
+              <GridPostList posts={postResults} />
+            )}
+
+            {hasNextPosts && (
+              <div ref={ref}>
+                <Loader />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="people" className="mt-9">
+            {isPeopleLoading ? (
+              <Loader />
+            ) : peopleResults.length === 0 ? (
+              <EmptyResults />
+            ) : (
+              <PeopleList users={peopleResults} />
+            )}
+
+            {hasNextPage && (
+              <div ref={ref} className="mt-10">
+                <Loader />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="tags" className="mt-9">
+            {isTagsLoading ? (
+              <Loader />
+            ) : tagResults.length === 0 ? (
+              <EmptyResults />
+            ) : (
+              <TagList tags={tagResults} />
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default Search;
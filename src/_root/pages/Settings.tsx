@@ -0,0 +1,131 @@
+import { Link } from "react-router-dom";
+import { Models } from "appwrite";
+
+import { Button } from "@/components/ui";
+import { Loader } from "@/components/shared";
+import { useToast } from "@/components/ui/use-toast";
+import { useUserContext } from "@/context/AuthContext";
+import {
+  useGetBlockedUsers,
+  useGetMutedUsers,
+  useUnblockUser,
+  useUnmuteUser,
+} from "@/lib/react-query/queries";
+
+type ManagedUserListProps = {
+  title: string;
+  emptyMessage: string;
+  actionLabel: string;
+  users?: Models.Document[];
+  isLoading: boolean;
+  isActing: boolean;
+  onAction: (userId: string) => void;
+};
+
+const ManagedUserList = ({
+  title,
+  emptyMessage,
+  actionLabel,
+  users,
+  isLoading,
+  isActing,
+  onAction,
+}: ManagedUserListProps) => (
+  <section className="flex flex-col gap-4 w-full">
+    <h3 className="body-bold md:h3-bold">{title}</h3>
+    {isLoading ? (
+      <Loader />
+    ) : !users || users.length === 0 ? (
+      <p className="text-light-4">{emptyMessage}</p>
+    ) : (
+      <ul className="flex flex-col gap-3">
+        {users.map((listed) => (
+          <li
+            key={listed.$id}
+            className="flex-between gap-4 bg-dark-2 rounded-xl border border-dark-4 px-5 py-4">
+            <Link to={`/profile/${listed.$id}`} className="flex items-center gap-3">
+              <img
+                src={listed.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                alt="user"
+                className="rounded-full w-12 h-12"
+              />
+              <div className="flex flex-col">
+                <p className="base-medium text-light-1 line-clamp-1">{listed.name}</p>
+                <p className="small-regular text-light-3 line-clamp-1">
+                  @{listed.username}
+                </p>
+              </div>
+            </Link>
+            <Button
+              type="button"
+              size="sm"
+              className="shad-button_dark_4 px-5"
+              disabled={isActing}
+              onClick={() => onAction(listed.$id)}>
+              {actionLabel}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
+
+const Settings = () => {
+  const { user } = useUserContext();
+  const { toast } = useToast();
+
+  const { data: blockedUsers, isLoading: isBlockedLoading } = useGetBlockedUsers(user.id);
+  const { data: mutedUsers, isLoading: isMutedLoading } = useGetMutedUsers(user.id);
+  const unblockMutation = useUnblockUser();
+  const unmuteMutation = useUnmuteUser();
+
+  const handleUnblock = async (userId: string) => {
+    try {
+      await unblockMutation.mutateAsync(userId);
+    } catch (error) {
+      toast({ title: "Unblock failed. Please try again." });
+    }
+  };
+
+  const handleUnmute = async (userId: string) => {
+    try {
+      await unmuteMutation.mutateAsync(userId);
+    } catch (error) {
+      toast({ title: "Unmute failed. Please try again." });
+    }
+  };
+
+  return (
+    <div className="flex flex-1">
+      <div className="common-container">
+        <div className="flex-start gap-3 justify-start w-full max-w-5xl">
+          <h2 className="h3-bold md:h2-bold text-left w-full">Settings</h2>
+        </div>
+
+        <div className="flex flex-col gap-10 w-full max-w-5xl">
+          <ManagedUserList
+            title="Blocked accounts"
+            emptyMessage="You haven't blocked anyone"
+            actionLabel="Unblock"
+            users={blockedUsers}
+            isLoading={isBlockedLoading}
+            isActing={unblockMutation.isLoading}
+            onAction={handleUnblock}
+          />
+          <ManagedUserList
+            title="Muted accounts"
+            emptyMessage="You haven't muted anyone"
+            actionLabel="Unmute"
+            users={mutedUsers}
+            isLoading={isMutedLoading}
+            isActing={unmuteMutation.isLoading}
+            onAction={handleUnmute}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { useInView } from "react-intersection-observer";
+
+import { Button } from "@/components/ui";
+import { normalizeTag } from "@/lib/utils";
+import { GridPostList, Loader } from "@/components/shared";
+import {
+  useGetCurrentUser,
+  useGetPostsByTag,
+  useUpdateFollowedTags,
+} from "@/lib/react-query/queries";
+
+const TagPosts = () => {
+  const { tag: tagParam } = useParams();
+  const tag = normalizeTag(tagParam || "");
+  const { ref, inView } = useInView();
+
+  const { data: currentUser } = useGetCurrentUser();
+  const { data: posts, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useGetPostsByTag(tag);
+  const { mutate: updateFollowedTags, isLoading: isUpdatingTags } =
+    useUpdateFollowedTags();
+
+  const followedTags: string[] = currentUser?.followedTags ?? [];
+  const isFollowingTag = followedTags.includes(tag);
+  // Exact once every page is loaded; until then only the hidden posts seen so
+  // far are taken off the total.
+  const postCount =
+    (posts?.pages[0]?.total ?? 0) -
+    (posts?.pages.reduce((hidden, page) => hidden + (page?.hiddenCount ?? 0), 0) ?? 0);
+
+  // Pages can come back empty when all their posts are hidden, so the next one
+  // is fetched while the loader is still in view.
+  useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [inView, hasNextPage, isFetchingNextPage]);
+
+  const handleToggleFollow = () => {
+    if (!currentUser) return;
+
+    updateFollowedTags({
+      userId: currentUser.$id,
+      followedTags: isFollowingTag
+        ? followedTags.filter((followedTag) => followedTag !== tag)
+        : [...followedTags, tag],
+    });
+  };
+
+  if (!posts)
+    return (
+      <div className="flex-center w-full h-full">
+        <Loader />
+      </div>
+    );
+
+  return (
+    <div className="explore-container">
+      <div className="flex-between w-full max-w-5xl">
+        <div className="flex flex-col gap-1">
+          <h2 className="h3-bold md:h2-bold w-full">#{tag}</h2>
+          <p className="small-medium text-light-3">
+            {postCount} {postCount === 1 ? "post" : "posts"}
+          </p>
+        </div>
+
+        <Button
+          type="button"
+          className={`shad-button_primary px-8 ${isFollowingTag ? "!bg-gray-900" : ""}`}
+          onClick={handleToggleFollow}
+          disabled={!currentUser || isUpdatingTags}
+        >
+          {isFollowingTag ? "Following" : "Follow"}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-9 w-full max-w-5xl mt-10">
+        {postCount === 0 ? (
+          <p className="text-light-4 mt-10 text-center w-full">
+            No posts tagged #{tag} yet
+          </p>
+        ) : (
+          posts.pages.map((item, index) => (
+            <GridPostList key={`page-${index}`} posts={item?.documents ?? []} />
+          ))
+        )}
+      </div>
+
+      {hasNextPage && (
+        <div ref={ref} className="mt-10">
+          <Loader />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagPosts;
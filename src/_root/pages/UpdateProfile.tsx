@@ -32,6 +32,7 @@ const UpdateProfile = () => {
       username: user.username,
       email: user.email,
       bio: user.bio || "",
+      isPrivate: user.isPrivate,
     },
   });
 
@@ -54,6 +55,7 @@ const UpdateProfile = () => {
       file: value.file,
       imageUrl: currentUser.imageUrl,
       imageId: currentUser.imageId,
+      isPrivate: value.isPrivate,
     });
 
     if (!updatedUser) {
@@ -67,6 +69,7 @@ const UpdateProfile = () => {
       name: updatedUser?.name,
       bio: updatedUser?.bio,
       imageUrl: updatedUser?.imageUrl,
+      isPrivate: updatedUser?.isPrivate,
     });
     return navigate(`/profile/${id}`);
   };
@@ -174,6 +177,29 @@ const UpdateProfile = () => {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="isPrivate"
+              render={({ field }) => (
+                <FormItem className="flex items-start gap-3 space-y-0">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      className="mt-1 h-4 w-4 accent-primary-500"
+                      checked={field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                    />
+                  </FormControl>
+                  <div className="flex flex-col gap-1">
+                    <FormLabel className="shad-form_label">Private account</FormLabel>
+                    <p className="small-regular text-light-3">
+                      Only followers you approve can see your posts.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
             <div className="flex gap-4 items-center justify-end">
               <Button
                 type="button"
@@ -8,3 +8,9 @@ export { default as EditPost } from "./EditPost";
 export { default as PostDetails } from "./PostDetails";
 export { default as LikedPosts } from "./LikedPosts";
 export { default as AllUsers } from "./AllUsers";
+export { default as TagPosts } from "./TagPosts";
+export { default as FollowList } from "./FollowList";
+export { default as FollowRequests } from "./FollowRequests";
+export { default as Settings } from "./Settings";
+export { default as Search } from "./Search";
+export { default as Notifications } from "./Notifications";
@@ -1,16 +1,26 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { CommentData } from '@/lib/appwrite/api';
+import useMentionAutocomplete from '@/hooks/useMentionAutocomplete';
+import MentionSuggestions from '@/components/shared/MentionSuggestions';
 
 type CommentFormProps = {
-  onSubmit: (formData: { comment: string }) => void;
+  onSubmit: (formData: { comment: string; parentId?: string | null }) => void;
   className?: string;
+  replyTo?: CommentData | null;
+  onCancelReply?: () => void;
 };
 
-const CommentForm: React.FC<CommentFormProps> = ({ onSubmit }) => {
+const CommentForm: React.FC<CommentFormProps> = ({ onSubmit, replyTo, onCancelReply }) => {
   const [comment, setComment] = useState('');
+  const mention = useMentionAutocomplete(comment, setComment);
+
+  useEffect(() => {
+    setComment(replyTo?.userUsername ? `@${replyTo.userUsername} ` : '');
+  }, [replyTo]);
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    onSubmit({ comment });
+    onSubmit({ comment, parentId: replyTo?.commentId ?? null });
     setComment(''); 
   };
   return (
@@ -18,15 +28,26 @@ const CommentForm: React.FC<CommentFormProps> = ({ onSubmit }) => {
       <div className="mx-auto max-w-screen-sm px-4 pl-0 pr-0	">
         <div className="flex pt-10 text-left text-gray-700">
           <div className="w-full space-y-3 text-gray-700">
-            <div className="flex flex-row justify-between">
+            {replyTo && (
+              <div className="flex flex-row justify-between text-light-3 small-regular">
+                <p>Replying to {replyTo.userName}</p>
+                <button type="button" onClick={onCancelReply}>
+                  Cancel
+                </button>
+              </div>
+            )}
+            <div className="relative flex flex-row justify-between">
               <textarea
                 name="comment"
                 placeholder="Add a comment..."
                 value={comment}
-                onChange={(e) => setComment(e.target.value)}
+                onChange={mention.onChange}
+                onClick={mention.onClick}
+                onKeyDown={mention.onKeyDown}
                 style={{ resize: 'none' }}
                 className=" h-10 text-left w-3/4 min-w-3/4 max-w-3/4 overflow-hidden whitespace-pre-wrap rounded-md border border-none bg-transparent p-5 text-sm font-normal normal-case text-white opacity-100 outline-none "
               ></textarea>
+              <MentionSuggestions {...mention} />
               <button
                 type="submit"
                 className={`relative inline-flex h-10 w-auto max-w-full cursor-pointer items-center justify-center overflow-hidden whitespace-pre rounded-md bg-transparent px-4 text-center text-sm font-medium normal-case text-white opacity-100 outline-none`}
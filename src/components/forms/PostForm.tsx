@@ -1,4 +1,5 @@
 import * as z from "zod";
+import { useEffect, useRef, useState } from "react";
 import { Models } from "appwrite";
 import { useForm } from "react-hook-form";
 import { useNavigate } from "react-router-dom";
@@ -16,9 +17,15 @@ import {
   Textarea,
 } from "@/components/ui";
 import { PostValidation } from "@/lib/validation";
+import { IMediaFile } from "@/types";
+import { PostUploadOptions } from "@/lib/appwrite/api";
+import { getPostMedia } from "@/lib/utils";
+import { formatFileSize, getPhotoLocation } from "@/lib/media";
 import { useToast } from "@/components/ui/use-toast";
 import { useUserContext } from "@/context/AuthContext";
 import { FileUploader, Loader } from "@/components/shared";
+import MentionSuggestions from "@/components/shared/MentionSuggestions";
+import useMentionAutocomplete from "@/hooks/useMentionAutocomplete";
 import { useCreatePost, useUpdatePost } from "@/lib/react-query/queries";
 
 type PostFormProps = {
@@ -34,45 +41,110 @@ const PostForm = ({ post, action }: PostFormProps) => {
     resolver: zodResolver(PostValidation),
     defaultValues: {
       caption: post ? post?.caption : "",
-      file: [],
+      media: getPostMedia(post),
+      location: post?.location ?? "",
       tags: post ? post.tags.join(",") : "",
     },
   });
 
+  // Opt-in: fill an empty location from the photos' EXIF GPS. Only the nearest
+  // city name is used; the uploaded files carry no metadata either way.
+  const [usePhotoLocation, setUsePhotoLocation] = useState(false);
+  // Only photos still in the post are read, as picked (before any edit drops
+  // their EXIF).
+  const [mediaOriginals, setMediaOriginals] = useState<File[]>([]);
+  const [locationNotice, setLocationNotice] = useState("");
+
+  useEffect(() => {
+    if (!usePhotoLocation || mediaOriginals.length === 0 || form.getValues("location")) return;
+
+    let isCurrent = true;
+    getPhotoLocation(mediaOriginals).then((location) => {
+      if (!isCurrent) return;
+
+      if (location) {
+        form.setValue("location", location, { shouldDirty: true });
+        setLocationNotice("");
+      } else {
+        setLocationNotice("No location found in these photos.");
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [usePhotoLocation, mediaOriginals]);
+
+  const captionMention = useMentionAutocomplete(
+    form.watch("caption"),
+    (caption) => form.setValue("caption", caption, { shouldDirty: true })
+  );
+
   const { mutateAsync: createPost, isLoading: isLoadingCreate } =
     useCreatePost();
   const { mutateAsync: updatePost, isLoading: isLoadingUpdate } =
     useUpdatePost();
 
+  // Per-file progress while saving; undefined when no save is running.
+  const [uploadProgress, setUploadProgress] = useState<Map<File, number>>();
+  // Combined size of the images downsized so far, before and after.
+  const [imageSizes, setImageSizes] = useState<{ original: number; processed: number }>();
+  // Set once the uploads are done and the post is being written, which can't
+  // be canceled any more.
+  const [isPublishing, setIsPublishing] = useState(false);
+  const uploadController = useRef<AbortController | null>(null);
+
+  // Leaving the page abandons the upload, which also cleans up what it stored.
+  useEffect(() => () => uploadController.current?.abort(), []);
+
   const handleSubmit = async (value: z.infer<typeof PostValidation>) => {
-    if (post && action === "Update") {
-      const updatedPost = await updatePost({
-        ...value,
-        postId: post.$id,
-        imageId: post.imageId,
-        imageUrl: post.imageUrl,
-      });
-
-      if (!updatedPost) {
-        toast({
-          title: `${action} post failed. Please try again.`,
-        });
-      }
-      return navigate(`/posts/${post.$id}`);
-    }
-    const newPost = await createPost({
-      ...value,
-      userId: user.id,
-    });
+    const newFiles = value.media.filter((item): item is IMediaFile => item instanceof File);
+    const controller = new AbortController();
+    uploadController.current = controller;
+    setUploadProgress(new Map(newFiles.map((file) => [file, 0])));
+    setImageSizes(undefined);
+
+    const upload: PostUploadOptions = {
+      signal: controller.signal,
+      onProgress: (fileIndex, progress) =>
+        setUploadProgress((prev) => prev && new Map(prev).set(newFiles[fileIndex], progress)),
+      onProcessed: (_, { originalSize, processedSize }) =>
+        setImageSizes((prev) => ({
+          original: (prev?.original ?? 0) + originalSize,
+          processed: (prev?.processed ?? 0) + processedSize,
+        })),
+      onUploadsDone: () => setIsPublishing(true),
+    };
 
-    if (!newPost) {
-      toast({
-        title: `${action} post failed. Please try again.`,
-      });
+    const savedPost =
+      post && action === "Update"
+        ? await updatePost({ post: { ...value, postId: post.$id }, upload })
+        : await createPost({
+            post: { ...value, media: newFiles, userId: user.id },
+            upload,
+          });
+
+    uploadController.current = null;
+    setUploadProgress(undefined);
+    setIsPublishing(false);
+
+    if (savedPost) {
+      navigate(post && action === "Update" ? `/posts/${post.$id}` : "/");
+      return;
     }
-    navigate("/");
+    toast({
+      title: controller.signal.aborted
+        ? "Upload canceled."
+        : `${action} post failed. Please try again.`,
+    });
   };
 
+  const isSaving = isLoadingCreate || isLoadingUpdate;
+  const uploadedFraction = uploadProgress?.size
+    ? [...uploadProgress.values()].reduce((sum, progress) => sum + progress, 0) /
+      uploadProgress.size
+    : 0;
+
   return (
     <Form {...form}>
       <form
@@ -84,12 +156,18 @@ const PostForm = ({ post, action }: PostFormProps) => {
           render={({ field }) => (
             <FormItem>
               <FormLabel className="shad-form_label">Caption</FormLabel>
-              <FormControl>
-                <Textarea
-                  className="shad-textarea custom-scrollbar"
-                  {...field}
-                />
-              </FormControl>
+              <div className="relative">
+                <FormControl>
+                  <Textarea
+                    className="shad-textarea custom-scrollbar"
+                    {...field}
+                    onChange={captionMention.onChange}
+                    onClick={captionMention.onClick}
+                    onKeyDown={captionMention.onKeyDown}
+                  />
+                </FormControl>
+                <MentionSuggestions {...captionMention} />
+              </div>
               <FormMessage className="shad-form_message" />
             </FormItem>
           )}
@@ -97,14 +175,16 @@ const PostForm = ({ post, action }: PostFormProps) => {
 
         <FormField
           control={form.control}
-          name="file"
+          name="media"
           render={({ field }) => (
             <FormItem>
-              <FormLabel className="shad-form_label">Add Photos</FormLabel>
+              <FormLabel className="shad-form_label">Add Photos or Videos</FormLabel>
               <FormControl>
                 <FileUploader
                   fieldChange={field.onChange}
-                  mediaUrl={post?.imageUrl}
+                  media={getPostMedia(post)}
+                  onOriginalsChange={setMediaOriginals}
+                  uploadProgress={uploadProgress}
                 />
               </FormControl>
               <FormMessage className="shad-form_message" />
@@ -112,6 +192,32 @@ const PostForm = ({ post, action }: PostFormProps) => {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="shad-form_label">Add Location</FormLabel>
+              <FormControl>
+                <Input type="text" className="shad-input" {...field} />
+              </FormControl>
+              <label className="flex items-center gap-2 small-regular text-light-2">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary-500"
+                  checked={usePhotoLocation}
+                  onChange={(e) => setUsePhotoLocation(e.target.checked)}
+                />
+                Fill in from where the photo was taken
+              </label>
+              {usePhotoLocation && locationNotice && (
+                <p className="small-regular text-light-3">{locationNotice}</p>
+              )}
+              <FormMessage className="shad-form_message" />
+            </FormItem>
+          )}
+        />
+
 
         <FormField
           control={form.control}
@@ -135,17 +241,44 @@ const PostForm = ({ post, action }: PostFormProps) => {
         />
 
         <div className="flex gap-4 items-center justify-end">
-          <Button
-            type="button"
-            className="shad-button_dark_4"
-            onClick={() => navigate(-1)}>
-            Cancel
-          </Button>
+          {isSaving && uploadProgress && uploadProgress.size > 0 && (
+            <div className="flex flex-1 items-center gap-3 small-regular text-light-3">
+              <div className="flex-1 h-1.5 rounded-full bg-dark-4 overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-[width]"
+                  style={{ width: `${Math.round(uploadedFraction * 100)}%` }}
+                />
+              </div>
+              {Math.round(uploadedFraction * 100)}%
+              {imageSizes && (
+                <span>
+                  · images {formatFileSize(imageSizes.original)} →{" "}
+                  {formatFileSize(imageSizes.processed)}
+                </span>
+              )}
+            </div>
+          )}
+          {isSaving ? (
+            <Button
+              type="button"
+              className="shad-button_dark_4"
+              disabled={isPublishing}
+              onClick={() => uploadController.current?.abort()}>
+              Cancel upload
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              className="shad-button_dark_4"
+              onClick={() => navigate(-1)}>
+              Cancel
+            </Button>
+          )}
           <Button
             type="submit"
             className="shad-button_primary whitespace-nowrap"
-            disabled={isLoadingCreate || isLoadingUpdate}>
-            {(isLoadingCreate || isLoadingUpdate) && <Loader />}
+            disabled={isSaving}>
+            {isSaving && <Loader />}
             {action} Post
           </Button>
         </div>
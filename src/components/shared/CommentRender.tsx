@@ -1,17 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui";
-import { multiFormatDateString } from "@/lib/utils";
+import {
+  checkIsLiked,
+  countReplies,
+  isOptimisticComment,
+  multiFormatDateString,
+} from "@/lib/utils";
+import { useLikeComment, useUnlikeComment } from "@/lib/react-query/queries";
 import EditComment from '@/_root/pages/EditComment';
-import { CommentData } from '@/lib/appwrite/api';
+import MentionText from './MentionText';
+import { CommentData, CommentThread } from '@/lib/appwrite/api';
 
 interface CommentRenderProps {
-  comment: CommentData;
+  comment: CommentThread;
   editingCommentId: string | null;
   handleEditComment: (commentId: string, updatedCommentText: string) => void;
   handleCancelEdit: () => void;
-  user: any; 
+  user: any;
   handleEditButtonClick: (commentId: string) => void;
   handleDeleteComment: (commentId: string) => void;
+  handleReplyButtonClick: (comment: CommentData) => void;
 }
 
 const CommentRender: React.FC<CommentRenderProps> = ({
@@ -21,10 +29,36 @@ const CommentRender: React.FC<CommentRenderProps> = ({
   handleCancelEdit,
   user,
   handleEditButtonClick,
-  handleDeleteComment
+  handleDeleteComment,
+  handleReplyButtonClick
 }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const replyCount = countReplies(comment);
+  const isLiked = checkIsLiked(comment.likes, user?.id);
+  // Actions wait until the real comment replaces the optimistic one.
+  const isPending = isOptimisticComment(comment);
+
+  const { mutate: likeComment } = useLikeComment();
+  const { mutate: unlikeComment } = useUnlikeComment();
+
+  const handleLikeComment = () => {
+    if (isPending) return;
+
+    const variables = {
+      postId: comment.postId,
+      commentId: comment.commentId,
+      userId: user.id,
+    };
+
+    if (isLiked) {
+      unlikeComment(variables);
+    } else {
+      likeComment(variables);
+    }
+  };
+
     return(
-    <li key={comment.commentId} className="flex justify-center relative top-1/3 w-full">
+    <li key={comment.commentId} className="flex flex-col justify-center relative top-1/3 w-full">
         {editingCommentId === comment.commentId ? (
         <EditComment
             initialCommentText={comment.commentText}
@@ -34,6 +68,10 @@ const CommentRender: React.FC<CommentRenderProps> = ({
             userImage={comment.userImage}
             createdAt={multiFormatDateString(comment.createdAt)}
         />
+    ) : comment.isDeleted ? (
+      <div className="relative border border-none rounded-lg bg-transparent w-full pt-4 pb-4">
+        <p className="text-light-4 text-sm italic pl-1">Comment deleted</p>
+      </div>
     ) : (
       <div className="relative grid grid-cols-1 gap-4  border border-none rounded-lg bg-transparent shadow-lg w-full pt-4 pb-4">
         <div className="relative flex gap-4">
@@ -41,7 +79,7 @@ const CommentRender: React.FC<CommentRenderProps> = ({
           <div className="flex flex-col w-full">
             <div className="flex flex-row justify-between">
               <p className="relative text-xl text-white whitespace-nowrap truncate overflow-hidden">{comment.userName}</p>
-              {user?.id === comment.userId && (
+              {user?.id === comment.userId && !isPending && (
                 <div className="flex flex-row">
                   <Button
                     onClick={() => handleEditButtonClick(comment.commentId)}
@@ -63,9 +101,62 @@ const CommentRender: React.FC<CommentRenderProps> = ({
             <p className="text-white text-sm">{multiFormatDateString(comment.createdAt)} </p>
           </div>
         </div>
-        <p className="-mt-4 text-white text-l pt-3 pl-1">{comment.commentText}</p>
+        <MentionText
+          text={comment.commentText}
+          mentions={comment.mentions}
+          className="-mt-4 text-white text-l pt-3 pl-1"
+        />
+        <div className={`-mt-2 flex gap-4 pl-1 ${isPending ? "pointer-events-none opacity-50" : ""}`}>
+          <div className="flex gap-2 items-center">
+            <img
+              src={isLiked ? "/assets/icons/liked.svg" : "/assets/icons/like.svg"}
+              alt="like"
+              width={16}
+              height={16}
+              className="cursor-pointer"
+              onClick={handleLikeComment}
+            />
+            <p className="small-medium text-light-2">{comment.likes.length}</p>
+          </div>
+          <button
+            type="button"
+            className="text-light-3 small-medium"
+            disabled={isPending}
+            onClick={() => handleReplyButtonClick(comment)}
+          >
+            Reply
+          </button>
+        </div>
       </div>
     )}
+
+    {replyCount > 0 && (
+      <button
+        type="button"
+        className="self-start text-light-3 small-medium pl-1 pb-2"
+        onClick={() => setIsCollapsed((prev) => !prev)}
+      >
+        {isCollapsed ? "View" : "Hide"} {replyCount} {replyCount === 1 ? "reply" : "replies"}
+      </button>
+    )}
+
+    {!isCollapsed && comment.replies.length > 0 && (
+      <ul className="border-l border-dark-4 pl-4 ml-4">
+        {comment.replies.map((reply) => (
+          <CommentRender
+            key={reply.commentId}
+            comment={reply}
+            editingCommentId={editingCommentId}
+            handleEditComment={handleEditComment}
+            handleCancelEdit={handleCancelEdit}
+            user={user}
+            handleEditButtonClick={handleEditButtonClick}
+            handleDeleteComment={handleDeleteComment}
+            handleReplyButtonClick={handleReplyButtonClick}
+          />
+        ))}
+      </ul>
+    )}
   </li>
 
 )
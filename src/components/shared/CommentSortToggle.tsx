@@ -0,0 +1,33 @@
+import { CommentSort } from "@/lib/appwrite/api";
+
+type CommentSortToggleProps = {
+  sort: CommentSort;
+  onChange: (sort: CommentSort) => void;
+};
+
+const SORT_OPTIONS: { value: CommentSort; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "oldest", label: "Oldest" },
+  { value: "newest", label: "Newest" },
+];
+
+const CommentSortToggle = ({ sort, onChange }: CommentSortToggleProps) => {
+  return (
+    <div className="flex gap-3">
+      {SORT_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          className={`small-medium ${
+            sort === option.value ? "text-light-1" : "text-light-3"
+          }`}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default CommentSortToggle;
@@ -1,46 +1,349 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { FileWithPath, useDropzone } from "react-dropzone";
 
 import { Button } from "@/components/ui";
-import { convertFileToUrl } from "@/lib/utils";
+import { ICropAspect, IPostMedia, IPostMediaInput } from "@/types";
+import { MAX_POST_MEDIA, convertFileToUrl, isVideoMedia } from "@/lib/utils";
+import {
+  CroppedImage,
+  EditedImage,
+  POST_CROP_ASPECTS,
+  VIDEO_MAX_DURATION_SECONDS,
+  isVideoFile,
+  validateVideoFile,
+} from "@/lib/media";
+import ImageCropper from "./ImageCropper";
+import PhotoEditor from "./PhotoEditor";
 
 type FileUploaderProps = {
-  fieldChange: (files: File[]) => void;
-  mediaUrl: string;
+  fieldChange: (media: IPostMediaInput[]) => void;
+  media?: IPostMedia[];
+  // Receives the current items' files as picked, before they are cropped or
+  // edited, whenever the items change.
+  onOriginalsChange?: (files: File[]) => void;
+  // Set while the post is saving: progress (0-1) for each new file. Editing is
+  // locked until it is cleared.
+  uploadProgress?: Map<File, number>;
 };
 
-const FileUploader = ({ fieldChange, mediaUrl }: FileUploaderProps) => {
-  const [file, setFile] = useState<File[]>([]);
-  const [fileUrl, setFileUrl] = useState<string>(mediaUrl);
+type UploaderItem = {
+  key: string;
+  source: IPostMediaInput;
+  previewUrl: string;
+  // The file as picked, kept so a crop can be redone from the full image.
+  original?: File;
+};
+
+// Either a newly picked image waiting to be cropped, or an existing item
+// being re-cropped.
+type CropTarget = { file: File; itemKey?: string };
+
+let itemKey = 0;
+const nextItemKey = () => `media-${itemKey++}`;
+
+const toItem = (
+  source: IPostMediaInput,
+  original?: File,
+  previewUrl = source instanceof File ? convertFileToUrl(source) : source.url
+): UploaderItem => ({
+  key: nextItemKey(),
+  source,
+  previewUrl,
+  original,
+});
+
+const isVideoItem = ({ source }: UploaderItem) =>
+  source instanceof File ? isVideoFile(source) : isVideoMedia(source);
+
+const MediaPreview = ({ item, className }: { item: UploaderItem; className: string }) =>
+  isVideoItem(item) ? (
+    <video src={item.previewUrl} className={className} muted playsInline controls={false} />
+  ) : (
+    <img src={item.previewUrl} alt="image" className={className} />
+  );
+
+const UploadProgressBar = ({ progress }: { progress: number }) => (
+  <div className="absolute inset-x-0 bottom-0 h-1 bg-dark-1/70">
+    <div
+      className="h-full bg-primary-500 transition-[width]"
+      style={{ width: `${Math.round(progress * 100)}%` }}
+    />
+  </div>
+);
+
+const FileUploader = ({
+  fieldChange,
+  media = [],
+  onOriginalsChange,
+  uploadProgress,
+}: FileUploaderProps) => {
+  const [items, setItems] = useState<UploaderItem[]>(() => media.map((item) => toItem(item)));
+  const [activeKey, setActiveKey] = useState<string | null>(items[0]?.key ?? null);
+  const [notice, setNotice] = useState("");
+  const [cropQueue, setCropQueue] = useState<CropTarget[]>([]);
+  const [cropAspect, setCropAspect] = useState<ICropAspect>("1:1");
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const dragIndex = useRef<number | null>(null);
+  const isUploading = uploadProgress !== undefined;
+  // Read after awaiting in onDrop, where the captured state may be stale.
+  const latest = useRef({ items, cropQueue });
+  latest.current = { items, cropQueue };
+  const hasChanged = useRef(false);
+
+  // Updates are functional so a drop that finishes validating after a removal
+  // or crop adds to the current list; the form follows once they are applied.
+  const updateItems = (update: (prev: UploaderItem[]) => UploaderItem[]) => {
+    hasChanged.current = true;
+    setItems(update);
+  };
+
+  useEffect(() => {
+    if (!hasChanged.current) return;
+
+    fieldChange(items.map((item) => item.source));
+    onOriginalsChange?.(
+      items.flatMap((item) => item.original ?? (item.source instanceof File ? [item.source] : []))
+    );
+  }, [items]);
+
+  // Previews of picked files are object URLs; stored media use their own URLs.
+  useEffect(
+    () => () => {
+      latest.current.items.forEach((item) => {
+        if (item.source instanceof File) URL.revokeObjectURL(item.previewUrl);
+      });
+    },
+    []
+  );
 
   const onDrop = useCallback(
-    (acceptedFiles: FileWithPath[]) => {
-      setFile(acceptedFiles);
-      fieldChange(acceptedFiles);
-      setFileUrl(convertFileToUrl(acceptedFiles[0]));
+    async (acceptedFiles: FileWithPath[]) => {
+      const videoErrors = await Promise.all(
+        acceptedFiles.map((file) => (isVideoFile(file) ? validateVideoFile(file) : null))
+      );
+      const validFiles = acceptedFiles.filter((_, index) => !videoErrors[index]);
+      const { items: currentItems, cropQueue: currentQueue } = latest.current;
+      const room = MAX_POST_MEDIA - currentItems.length - currentQueue.length;
+      const accepted = validFiles.slice(0, room);
+      // Images go through the crop step first; videos are added as they are.
+      const added = accepted.filter(isVideoFile).map((file) => toItem(file));
+
+      setNotice(
+        videoErrors.find(Boolean) ??
+          (validFiles.length > room
+            ? `You can add up to ${MAX_POST_MEDIA} items per post.`
+            : "")
+      );
+      setCropQueue((prev) => [
+        ...prev,
+        ...accepted.filter((file) => !isVideoFile(file)).map((file) => ({ file })),
+      ]);
+      if (added.length === 0) return;
+
+      updateItems((prev) => [...prev, ...added]);
+      setActiveKey(added[0].key);
     },
-    [file]
+    []
   );
 
-  const { getRootProps, getInputProps } = useDropzone({
+  const { getRootProps, getInputProps, open } = useDropzone({
     onDrop,
+    multiple: true,
+    noClick: items.length > 0,
+    disabled: isUploading,
     accept: {
       "image/*": [".png", ".jpeg", ".jpg"],
+      "video/mp4": [".mp4"],
+      "video/webm": [".webm"],
     },
   });
 
+  const removeItem = (key: string) => {
+    const removed = items.find((item) => item.key === key);
+    if (removed?.source instanceof File) URL.revokeObjectURL(removed.previewUrl);
+
+    const nextItems = items.filter((item) => item.key !== key);
+    updateItems((prev) => prev.filter((item) => item.key !== key));
+    setNotice("");
+    if (activeKey === key) setActiveKey(nextItems[0]?.key ?? null);
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (from === to) return;
+
+    updateItems((prev) => {
+      const nextItems = [...prev];
+      const [moved] = nextItems.splice(from, 1);
+      nextItems.splice(to, 0, moved);
+      return nextItems;
+    });
+  };
+
+  const handleCropApply = ({ file: cropped, previewUrl }: CroppedImage) => {
+    const [target, ...rest] = cropQueue;
+    if (cropped.crop) setCropAspect(cropped.crop.aspect);
+    setCropQueue(rest);
+
+    if (target.itemKey) {
+      updateItems((prev) =>
+        prev.map((item) => {
+          if (item.key !== target.itemKey) return item;
+
+          URL.revokeObjectURL(item.previewUrl);
+          return { ...item, source: cropped, previewUrl };
+        })
+      );
+      return;
+    }
+
+    const added = toItem(cropped, target.file, previewUrl);
+    updateItems((prev) => [...prev, added]);
+    setActiveKey(added.key);
+  };
+
+  // The edits are recorded on the file rather than baked in, so reopening the
+  // editor adjusts them instead of stacking on an already edited image.
+  const handleEditApply = ({ file: edited, previewUrl }: EditedImage) => {
+    updateItems((prev) =>
+      prev.map((item) => {
+        if (item.key !== editingKey) return item;
+
+        URL.revokeObjectURL(item.previewUrl);
+        return { ...item, source: edited, previewUrl };
+      })
+    );
+    setEditingKey(null);
+  };
+
+  const activeItem = items.find((item) => item.key === activeKey) ?? items[0];
+  const cropTarget = cropQueue[0];
+  const editingItem = items.find((item) => item.key === editingKey);
+
+  if (cropTarget) {
+    return (
+      <ImageCropper
+        file={cropTarget.file}
+        aspects={POST_CROP_ASPECTS}
+        initialAspect={cropAspect}
+        onApply={handleCropApply}
+        onCancel={() => setCropQueue((prev) => prev.slice(1))}
+      />
+    );
+  }
+
+  if (editingItem && editingItem.source instanceof File) {
+    return (
+      <PhotoEditor
+        file={editingItem.source}
+        initialEdits={editingItem.source.edits}
+        onApply={handleEditApply}
+        onCancel={() => setEditingKey(null)}
+      />
+    );
+  }
+
   return (
     <div
       {...getRootProps()}
       className="flex flex-center flex-col bg-dark-3 rounded-xl cursor-pointer">
       <input {...getInputProps()} className="cursor-pointer" />
 
-      {fileUrl ? (
+      {activeItem ? (
         <>
-          <div className="flex flex-1 justify-center w-full p-5 lg:p-10">
-            <img src={fileUrl} alt="image" className="file_uploader-img" />
+          <div className="relative flex flex-1 justify-center w-full p-5 lg:p-10">
+            <MediaPreview item={activeItem} className="file_uploader-img" />
+
+            {activeItem.original && !isUploading && (
+              <div className="absolute top-8 right-8 lg:top-14 lg:right-14 flex gap-2">
+                <Button
+                  type="button"
+                  className="shad-button_dark_4"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setCropQueue([{ file: activeItem.original!, itemKey: activeItem.key }]);
+                  }}>
+                  Crop
+                </Button>
+                <Button
+                  type="button"
+                  className="shad-button_dark_4"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingKey(activeItem.key);
+                  }}>
+                  Edit
+                </Button>
+              </div>
+            )}
           </div>
-          <p className="file_uploader-label">Click or drag photo to replace</p>
+
+          <ul className="flex gap-3 w-full px-5 lg:px-10 pb-5 overflow-x-auto custom-scrollbar">
+            {items.map((item, index) => (
+              <li
+                key={item.key}
+                draggable={!isUploading}
+                className={`file_uploader-thumb ${
+                  item.key === activeItem.key ? "border-primary-500" : "border-transparent"
+                }`}
+                onClick={() => setActiveKey(item.key)}
+                onDragStart={() => (dragIndex.current = index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  if (dragIndex.current !== null) moveItem(dragIndex.current, index);
+                  dragIndex.current = null;
+                }}>
+                <MediaPreview
+                  item={item}
+                  className="h-full w-full object-cover pointer-events-none"
+                />
+                {isVideoItem(item) && (
+                  <img
+                    src="/assets/icons/video.svg"
+                    alt="video"
+                    width={16}
+                    height={16}
+                    className="absolute top-1 left-1"
+                  />
+                )}
+                <span className="absolute bottom-1 left-1 rounded bg-dark-1/70 px-1 tiny-medium">
+                  {index + 1}
+                </span>
+                {item.source instanceof File && uploadProgress && (
+                  <UploadProgressBar progress={uploadProgress.get(item.source) ?? 0} />
+                )}
+                {!isUploading && (
+                  <button
+                    type="button"
+                    aria-label={`Remove item ${index + 1}`}
+                    className="absolute top-1 right-1 flex-center h-5 w-5 rounded-full bg-dark-1/70 text-light-1"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeItem(item.key);
+                    }}>
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+
+            {items.length < MAX_POST_MEDIA && !isUploading && (
+              <li>
+                <button
+                  type="button"
+                  aria-label="Add photos or videos"
+                  className="file_uploader-thumb flex-center border-dashed border-dark-4 text-light-3 h3-bold"
+                  onClick={open}>
+                  +
+                </button>
+              </li>
+            )}
+          </ul>
+
+          <p className="file_uploader-label">
+            {notice || `${items.length}/${MAX_POST_MEDIA} items · drag to reorder`}
+          </p>
         </>
       ) : (
         <div className="file_uploader-box ">
@@ -52,9 +355,12 @@ const FileUploader = ({ fieldChange, mediaUrl }: FileUploaderProps) => {
           />
 
           <h3 className="base-medium text-light-2 mb-2 mt-6">
-            Drag photo here
+            Drag photos or videos here
           </h3>
-          <p className="text-light-4 small-regular mb-6">SVG, PNG, JPG</p>
+          <p className="text-light-4 small-regular mb-6">
+            PNG, JPG, MP4, WebM · up to {MAX_POST_MEDIA} items · videos up to{" "}
+            {VIDEO_MAX_DURATION_SECONDS}s
+          </p>
 
           <Button type="button" className="shad-button_dark_4">
             Select from computer
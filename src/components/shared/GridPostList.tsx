@@ -3,6 +3,7 @@ import { Link } from "react-router-dom";
 
 import { PostStats } from "@/components/shared";
 import { useUserContext } from "@/context/AuthContext";
+import { getMediaThumbnail, getPostMedia, isVideoMedia } from "@/lib/utils";
 
 type GridPostListProps = {
   posts: Models.Document[];
@@ -19,34 +20,57 @@ const GridPostList = ({
 
   return (
     <ul className="grid-container">
-      {posts.map((post) => (
-        <li key={post.$id} className="relative min-w-80 h-80">
-          <Link to={`/posts/${post.$id}`} className="grid-post_link">
-            <img
-              src={post.imageUrl}
-              alt="post"
-              className="h-full w-full object-cover"
-            />
-          </Link>
-
-          <div className="grid-post_user">
-            {showUser && (
-              <div className="flex items-center justify-start gap-2 flex-1">
-                <img
-                  src={
-                    post.creator.imageUrl ||
-                    "/assets/icons/profile-placeholder.svg"
-                  }
-                  alt="creator"
-                  className="w-8 h-8 rounded-full"
-                />
-                <p className="line-clamp-1">{post.creator.name}</p>
-              </div>
+      {posts.map((post) => {
+        const media = getPostMedia(post);
+        const badge =
+          media.length > 1
+            ? { src: "/assets/icons/carousel.svg", alt: `${media.length} items` }
+            : media[0] && isVideoMedia(media[0])
+            ? { src: "/assets/icons/video.svg", alt: "video" }
+            : null;
+        // Images are stored already cropped, so every tile keeps the same
+        // square frame and object-cover centres the kept region in it.
+        const cover = media[0];
+
+        return (
+          <li key={post.$id} className="relative min-w-80 h-80">
+            <Link to={`/posts/${post.$id}`} className="grid-post_link">
+              <img
+                src={cover ? getMediaThumbnail(cover) : post.imageUrl}
+                alt="post"
+                className="h-full w-full object-cover"
+              />
+            </Link>
+
+            {badge && (
+              <img
+                src={badge.src}
+                alt={badge.alt}
+                width={20}
+                height={20}
+                className="absolute top-4 right-4 pointer-events-none"
+              />
             )}
-            {showStats && <PostStats post={post} userId={user.id} />}
-          </div>
-        </li>
-      ))}
+
+            <div className="grid-post_user">
+              {showUser && (
+                <div className="flex items-center justify-start gap-2 flex-1">
+                  <img
+                    src={
+                      post.creator.imageUrl ||
+                      "/assets/icons/profile-placeholder.svg"
+                    }
+                    alt="creator"
+                    className="w-8 h-8 rounded-full"
+                  />
+                  <p className="line-clamp-1">{post.creator.name}</p>
+                </div>
+              )}
+              {showStats && <PostStats post={post} userId={user.id} />}
+            </div>
+          </li>
+        );
+      })}
     </ul>
   );
 };
@@ -0,0 +1,237 @@
+import { PointerEvent, WheelEvent, useEffect, useRef, useState } from "react";
+
+import { Button } from "@/components/ui";
+import { ICropAspect } from "@/types";
+import { CropAspectOption, CroppedImage, cropImage } from "@/lib/media";
+
+type ImageCropperProps = {
+  file: File;
+  aspects: CropAspectOption[];
+  initialAspect?: ICropAspect;
+  shape?: "rect" | "circle";
+  onApply: (cropped: CroppedImage) => void;
+  onCancel: () => void;
+};
+
+type Size = { width: number; height: number };
+type Offset = { x: number; y: number };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const ImageCropper = ({
+  file,
+  aspects,
+  initialAspect,
+  shape = "rect",
+  onApply,
+  onCancel,
+}: ImageCropperProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ pointer: Offset; offset: Offset } | null>(null);
+
+  const [imageUrl, setImageUrl] = useState("");
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [aspect, setAspect] = useState<CropAspectOption>(
+    aspects.find((option) => option.aspect === initialAspect) ?? aspects[0]
+  );
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setNaturalSize(null);
+    setZoom(MIN_ZOOM);
+    setOffset({ x: 0, y: 0 });
+
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The frame fills the container width, but wide presets shouldn't make tall
+  // images unmanageably small, nor tall presets overflow the screen.
+  const frame: Size = {
+    width: Math.min(containerWidth, 480 * aspect.ratio),
+    height: Math.min(containerWidth, 480 * aspect.ratio) / aspect.ratio,
+  };
+
+  // Scale at which the image just covers the frame; zoom multiplies it.
+  const baseScale = naturalSize
+    ? Math.max(frame.width / naturalSize.width, frame.height / naturalSize.height)
+    : 1;
+  const scale = baseScale * zoom;
+  const displayed: Size = {
+    width: (naturalSize?.width ?? 0) * scale,
+    height: (naturalSize?.height ?? 0) * scale,
+  };
+
+  const clampOffset = (next: Offset, size: Size = displayed): Offset => ({
+    x: clamp(next.x, -(size.width - frame.width) / 2, (size.width - frame.width) / 2),
+    y: clamp(next.y, -(size.height - frame.height) / 2, (size.height - frame.height) / 2),
+  });
+
+  const updateZoom = (nextZoom: number) => {
+    const clampedZoom = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM);
+    const nextScale = baseScale * clampedZoom;
+
+    setZoom(clampedZoom);
+    setOffset((prev) =>
+      clampOffset(prev, {
+        width: (naturalSize?.width ?? 0) * nextScale,
+        height: (naturalSize?.height ?? 0) * nextScale,
+      })
+    );
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointer: { x: e.clientX, y: e.clientY }, offset };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+
+    const { pointer, offset: startOffset } = dragStart.current;
+    setOffset(
+      clampOffset({
+        x: startOffset.x + e.clientX - pointer.x,
+        y: startOffset.y + e.clientY - pointer.y,
+      })
+    );
+  };
+
+  const handleWheel = (e: WheelEvent<HTMLDivElement>) => {
+    updateZoom(zoom - e.deltaY * 0.002);
+  };
+
+  const handleAspectChange = (option: CropAspectOption) => {
+    setAspect(option);
+    setZoom(MIN_ZOOM);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handleApply = async () => {
+    const image = imageRef.current;
+    if (!image || !naturalSize) return;
+
+    setIsApplying(true);
+    try {
+      const left = (displayed.width - frame.width) / 2 - offset.x;
+      const top = (displayed.height - frame.height) / 2 - offset.y;
+      const cropped = await cropImage(image, file, {
+        aspect: aspect.aspect,
+        x: left / displayed.width,
+        y: top / displayed.height,
+        width: frame.width / displayed.width,
+        height: frame.height / displayed.height,
+      });
+
+      onApply(cropped);
+    } catch (error) {
+      console.log(error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-5 w-full p-5 lg:p-10 bg-dark-3 rounded-xl">
+      <div ref={containerRef} className="flex-center w-full">
+        <div
+          className={`relative overflow-hidden touch-none cursor-move bg-dark-1 ${
+            shape === "circle" ? "rounded-full" : "rounded-[24px]"
+          }`}
+          style={{ width: frame.width, height: frame.height }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragStart.current = null)}
+          onPointerCancel={() => (dragStart.current = null)}
+          onWheel={handleWheel}>
+          {imageUrl && (
+            <img
+              ref={imageRef}
+              src={imageUrl}
+              alt="crop preview"
+              draggable={false}
+              className="absolute max-w-none select-none pointer-events-none"
+              style={{
+                width: displayed.width,
+                height: displayed.height,
+                left: (frame.width - displayed.width) / 2 + offset.x,
+                top: (frame.height - displayed.height) / 2 + offset.y,
+              }}
+              onLoad={(e) =>
+                setNaturalSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-4 w-full">
+        {aspects.length > 1 && (
+          <div className="flex gap-2">
+            {aspects.map((option) => (
+              <button
+                key={option.aspect}
+                type="button"
+                className={`small-medium rounded-full px-3 py-1 ${
+                  option.aspect === aspect.aspect
+                    ? "bg-primary-500 text-light-1"
+                    : "bg-dark-4 text-light-2"
+                }`}
+                onClick={() => handleAspectChange(option)}>
+                {option.aspect}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 small-regular text-light-3">
+          Zoom
+          <input
+            type="range"
+            min={MIN_ZOOM}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={zoom}
+            className="accent-primary-500"
+            onChange={(e) => updateZoom(Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="button" className="shad-button_dark_4" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          className="shad-button_primary"
+          disabled={!naturalSize || isApplying}
+          onClick={handleApply}>
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -4,7 +4,10 @@ import { INavLink } from "@/types";
 import { sidebarLinks } from "@/constants";
 import { Loader } from "@/components/shared";
 import { Button } from "@/components/ui/button";
-import { useSignOutAccount } from "@/lib/react-query/queries";
+import {
+  useGetUnreadNotificationsCount,
+  useSignOutAccount,
+} from "@/lib/react-query/queries";
 import { useUserContext, INITIAL_USER } from "@/context/AuthContext";
 
 const LeftSidebar = () => {
@@ -13,6 +16,7 @@ const LeftSidebar = () => {
   const { user, setUser, setIsAuthenticated, isLoading } = useUserContext();
 
   const { mutate: signOut } = useSignOutAccount();
+  const { data: unreadCount = 0 } = useGetUnreadNotificationsCount(user.id || undefined);
 
   const handleSignOut = async (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent>
@@ -81,6 +85,11 @@ const LeftSidebar = () => {
                     }`}
                   />
                   {link.label}
+                  {link.route === "/notifications" && unreadCount > 0 && (
+                    <span className="ml-auto rounded-full bg-primary-500 px-2 tiny-medium text-light-1">
+                      {unreadCount}
+                    </span>
+                  )}
                 </NavLink>
               </li>
             );
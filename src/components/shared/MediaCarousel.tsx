@@ -0,0 +1,94 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+
+import { IPostMedia } from "@/types";
+import { isVideoMedia } from "@/lib/utils";
+import PostVideo from "./PostVideo";
+
+type MediaCarouselProps = {
+  media: IPostMedia[];
+  imageClassName?: string;
+  className?: string;
+  to?: string;
+  // Frames every slide to the post's crop so mixed sources line up.
+  aspectRatio?: number;
+};
+
+const MediaCarousel = ({
+  media,
+  imageClassName = "",
+  className = "",
+  to,
+  aspectRatio,
+}: MediaCarouselProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+
+    setActiveIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const scrollTo = (index: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+
+    track.scrollTo({ left: index * track.clientWidth, behavior: "smooth" });
+  };
+
+  const slideStyle = aspectRatio ? { aspectRatio, height: "auto" } : undefined;
+
+  return (
+    <div className={`relative w-full ${className}`}>
+      <div ref={trackRef} className="media_carousel-track" onScroll={handleScroll}>
+        {media.map((item, index) => {
+          // Videos take taps for sound, so they are never wrapped in the link.
+          if (isVideoMedia(item)) {
+            return (
+              <div key={item.id} className="w-full shrink-0 snap-center">
+                <PostVideo video={item} className={imageClassName} style={slideStyle} />
+              </div>
+            );
+          }
+
+          const image = (
+            <img
+              src={item.url}
+              alt={`post media ${index + 1} of ${media.length}`}
+              className={`w-full ${imageClassName}`}
+              style={slideStyle}
+              draggable={false}
+            />
+          );
+
+          return (
+            <div key={item.id} className="w-full shrink-0 snap-center">
+              {to ? <Link to={to}>{image}</Link> : image}
+            </div>
+          );
+        })}
+      </div>
+
+      {media.length > 1 && (
+        <div className="media_carousel-dots">
+          {media.map((item, index) => (
+            <button
+              key={item.id}
+              type="button"
+              aria-label={`Show media ${index + 1}`}
+              aria-current={index === activeIndex}
+              className={`h-1.5 w-1.5 rounded-full ${
+                index === activeIndex ? "bg-primary-500" : "bg-light-3/60"
+              }`}
+              onClick={() => scrollTo(index)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaCarousel;
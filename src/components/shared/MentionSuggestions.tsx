@@ -0,0 +1,50 @@
+import { Models } from "appwrite";
+
+type MentionSuggestionsProps = {
+  suggestions: Models.Document[];
+  activeIndex: number;
+  selectSuggestion: (user: Models.Document) => void;
+  placement?: "above" | "below";
+};
+
+const MentionSuggestions = ({
+  suggestions,
+  activeIndex,
+  selectSuggestion,
+  placement = "below",
+}: MentionSuggestionsProps) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul
+      className={`absolute left-0 z-50 w-64 rounded-lg border border-dark-4 bg-dark-2 py-1 ${
+        placement === "above" ? "bottom-full mb-1" : "top-full mt-1"
+      }`}>
+      {suggestions.map((user, index) => (
+        <li key={user.$id}>
+          <button
+            type="button"
+            className={`flex w-full items-center gap-3 px-3 py-2 text-left ${
+              index === activeIndex ? "bg-dark-4" : ""
+            }`}
+            // Keep focus in the textarea so the caret position survives.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => selectSuggestion(user)}
+          >
+            <img
+              src={user.imageUrl || "/assets/icons/profile-placeholder.svg"}
+              alt="user"
+              className="h-8 w-8 rounded-full"
+            />
+            <div className="flex flex-col">
+              <p className="small-semibold text-light-1">{user.name}</p>
+              <p className="subtle-semibold text-light-3">@{user.username}</p>
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MentionSuggestions;
@@ -0,0 +1,47 @@
+import { Fragment, ReactNode } from "react";
+import { Link } from "react-router-dom";
+
+import { IMention } from "@/types";
+import { MENTION_REGEX } from "@/lib/utils";
+
+type MentionTextProps = {
+  text: string;
+  mentions?: IMention[];
+  className?: string;
+};
+
+const MentionText = ({ text, mentions = [], className }: MentionTextProps) => {
+  const mentionsByUsername = new Map(
+    mentions.map((mention) => [mention.username, mention])
+  );
+
+  // Only mentions that resolved to a user become links; the rest stay text.
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    const [, leading, username] = match;
+    const mention = mentionsByUsername.get(username);
+    if (!mention) continue;
+
+    const start = (match.index ?? 0) + leading.length;
+    parts.push(
+      <Fragment key={start}>
+        {text.slice(lastIndex, start)}
+        <Link to={`/profile/${mention.userId}`} className="text-primary-500">
+          @{username}
+        </Link>
+      </Fragment>
+    );
+    lastIndex = start + username.length + 1;
+  }
+
+  return (
+    <p className={className}>
+      {parts}
+      {text.slice(lastIndex)}
+    </p>
+  );
+};
+
+export default MentionText;
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from "react";
+
+import { Button } from "@/components/ui";
+import { IMediaFile } from "@/types";
+import {
+  DEFAULT_IMAGE_EDITS,
+  EditedImage,
+  ImageAdjustments,
+  ImageEdits,
+  PHOTO_FILTERS,
+  applyImageEdits,
+  fitWithin,
+  loadEditableImage,
+  renderImageEdits,
+} from "@/lib/media";
+
+type PhotoEditorProps = {
+  file: IMediaFile;
+  initialEdits?: ImageEdits;
+  onApply: (edited: EditedImage) => void;
+  onCancel: () => void;
+};
+
+const PREVIEW_MAX_SIZE = 640;
+const THUMBNAIL_SIZE = 72;
+
+const ADJUSTMENT_SLIDERS: { key: keyof ImageAdjustments; label: string; min: number }[] = [
+  { key: "brightness", label: "Brightness", min: -100 },
+  { key: "contrast", label: "Contrast", min: -100 },
+  { key: "saturation", label: "Saturation", min: -100 },
+  { key: "warmth", label: "Warmth", min: -100 },
+  { key: "vignette", label: "Vignette", min: 0 },
+];
+
+type EditableImage = Awaited<ReturnType<typeof loadEditableImage>>;
+
+const FilterThumbnail = ({
+  image,
+  filter,
+  isActive,
+  onSelect,
+}: {
+  image: EditableImage;
+  filter: string;
+  isActive: boolean;
+  onSelect: () => void;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const { width, height } = fitWithin(
+      image.width,
+      image.height,
+      THUMBNAIL_SIZE,
+      THUMBNAIL_SIZE
+    );
+    renderImageEdits(canvasRef.current, image, width, height, {
+      filter,
+      adjustments: DEFAULT_IMAGE_EDITS.adjustments,
+    });
+  }, [image, filter]);
+
+  return (
+    <button
+      type="button"
+      className="flex flex-col items-center gap-1 shrink-0"
+      onClick={onSelect}>
+      <canvas
+        ref={canvasRef}
+        className={`h-[72px] w-[72px] rounded-lg object-cover border-2 ${
+          isActive ? "border-primary-500" : "border-transparent"
+        }`}
+      />
+      <span className={`tiny-medium ${isActive ? "text-light-1" : "text-light-3"}`}>
+        {filter}
+      </span>
+    </button>
+  );
+};
+
+const PhotoEditor = ({
+  file,
+  initialEdits = DEFAULT_IMAGE_EDITS,
+  onApply,
+  onCancel,
+}: PhotoEditorProps) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<EditableImage | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    let loaded: EditableImage | null = null;
+
+    loadEditableImage(file)
+      .then((decoded) => {
+        loaded = decoded;
+        if (isCurrent) {
+          setImage(decoded);
+        } else if ("close" in decoded) {
+          decoded.close();
+        }
+      })
+      .catch((error) => console.log(error));
+
+    return () => {
+      isCurrent = false;
+      if (loaded && "close" in loaded) loaded.close();
+    };
+  }, [file]);
+
+  // Renders on the next frame so dragging a slider doesn't queue up redraws.
+  useEffect(() => {
+    if (!image || !previewRef.current) return;
+
+    const frame = requestAnimationFrame(() => {
+      if (!previewRef.current) return;
+
+      const { width, height } = fitWithin(
+        image.width,
+        image.height,
+        PREVIEW_MAX_SIZE,
+        PREVIEW_MAX_SIZE
+      );
+      renderImageEdits(previewRef.current, image, width, height, edits);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [image, edits]);
+
+  const updateAdjustment = (key: keyof ImageAdjustments, value: number) =>
+    setEdits((prev) => ({ ...prev, adjustments: { ...prev.adjustments, [key]: value } }));
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      onApply(await applyImageEdits(file, edits));
+    } catch (error) {
+      console.log(error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-5 w-full p-5 lg:p-10 bg-dark-3 rounded-xl">
+      <canvas ref={previewRef} className="max-w-full max-h-[480px] rounded-[24px]" />
+
+      {image && (
+        <div className="flex gap-3 w-full overflow-x-auto custom-scrollbar pb-2">
+          {PHOTO_FILTERS.map((filter) => (
+            <FilterThumbnail
+              key={filter.name}
+              image={image}
+              filter={filter.name}
+              isActive={edits.filter === filter.name}
+              onSelect={() => setEdits((prev) => ({ ...prev, filter: filter.name }))}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3 w-full">
+        {ADJUSTMENT_SLIDERS.map(({ key, label, min }) => (
+          <label key={key} className="flex flex-col gap-1 small-regular text-light-2">
+            <span className="flex-between">
+              {label}
+              <span className="text-light-3">{edits.adjustments[key]}</span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={100}
+              value={edits.adjustments[key]}
+              className="accent-primary-500"
+              onChange={(e) => updateAdjustment(key, Number(e.target.value))}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-4">
+        <Button
+          type="button"
+          className="shad-button_dark_4"
+          onClick={() => setEdits(DEFAULT_IMAGE_EDITS)}>
+          Reset
+        </Button>
+        <Button type="button" className="shad-button_dark_4" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          className="shad-button_primary"
+          disabled={!image || isApplying}
+          onClick={handleApply}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoEditor;
@@ -2,8 +2,18 @@ import { Models } from "appwrite";
 import { Link } from "react-router-dom";
 
 import { PostStats } from "@/components/shared";
-import { multiFormatDateString } from "@/lib/utils";
+import {
+  getPostMedia,
+  multiFormatDateString,
+  normalizeTag,
+  parseMentions,
+} from "@/lib/utils";
 import { useUserContext } from "@/context/AuthContext";
+import { useGetPostCommentPreview } from "@/lib/react-query/queries";
+import { getCropAspectRatio } from "@/lib/media";
+import MediaCarousel from "./MediaCarousel";
+import MentionText from "./MentionText";
+import UserActionsMenu from "./UserActionsMenu";
 
 type PostCardProps = {
   post: Models.Document;
@@ -11,9 +21,17 @@ type PostCardProps = {
 
 const PostCard = ({ post }: PostCardProps) => {
   const { user } = useUserContext();
+  const commentCount: number = post.commentsCount ?? 0;
+  const { data: commentPreview } = useGetPostCommentPreview(post.$id, commentCount > 0);
 
   if (!post.creator) return null;
 
+  const media = getPostMedia(post);
+  const cover = media[0];
+  const previewComments = (commentPreview ?? [])
+    .filter((comment) => !comment.isDeleted)
+    .reverse();
+
   return (
     <div className="post-card">
       <div className="flex-between">
@@ -41,34 +59,59 @@ const PostCard = ({ post }: PostCardProps) => {
           </div>
         </div>
 
-        <Link
-          to={`/update-post/${post.$id}`}
-          className={`${user.id !== post.creator.$id && "hidden"}`}
-        >
-          <img src={"/assets/icons/edit.svg"} alt="edit" width={20} height={20} />
-        </Link>
+        {user.id === post.creator.$id ? (
+          <Link to={`/update-post/${post.$id}`}>
+            <img src={"/assets/icons/edit.svg"} alt="edit" width={20} height={20} />
+          </Link>
+        ) : (
+          <UserActionsMenu userId={post.creator.$id} username={post.creator.username} />
+        )}
+      </div>
+
+      <div className="small-medium lg:base-medium py-5">
+        <MentionText text={post.caption} mentions={parseMentions(post.mentions)} />
+        <ul className="flex gap-1 mt-2">
+          {post.tags.map((tag: string, index: string) => (
+            <li key={`${tag}${index}`} className="text-light-3 small-regular">
+              <Link to={`/tags/${encodeURIComponent(normalizeTag(tag))}`}>#{tag}</Link>
+            </li>
+          ))}
+        </ul>
       </div>
 
-      <Link to={`/posts/${post.$id}`}>
-        <div className="small-medium lg:base-medium py-5">
-          <p>{post.caption}</p>
-          <ul className="flex gap-1 mt-2">
-            {post.tags.map((tag: string, index: string) => (
-              <li key={`${tag}${index}`} className="text-light-3 small-regular">
-                #{tag}
+      <MediaCarousel
+        media={media}
+        to={`/posts/${post.$id}`}
+        aspectRatio={cover?.crop ? getCropAspectRatio(cover.crop.aspect) : undefined}
+        imageClassName="post-card_img"
+        className="mb-5"
+      />
+
+      <PostStats post={post} userId={user.id} />
+
+      {commentCount > 0 && (
+        <div className="flex flex-col gap-1 mt-4">
+          <Link
+            to={`/posts/${post.$id}`}
+            className="small-medium text-light-3"
+          >
+            View all {commentCount} {commentCount === 1 ? "comment" : "comments"}
+          </Link>
+          <ul className="flex flex-col gap-1">
+            {previewComments.map((comment) => (
+              <li key={comment.commentId} className="small-regular line-clamp-2">
+                <Link
+                  to={`/profile/${comment.userId}`}
+                  className="small-semibold text-light-1 mr-2"
+                >
+                  {comment.userName}
+                </Link>
+                <span className="text-light-2">{comment.commentText}</span>
               </li>
             ))}
           </ul>
         </div>
-
-        <img
-          src={post.imageUrl || "/assets/icons/profile-placeholder.svg"}
-          alt="post image"
-          className="post-card_img"
-        />
-      </Link>
-
-      <PostStats post={post} userId={user.id} />
+      )}
     </div>
   );
 };
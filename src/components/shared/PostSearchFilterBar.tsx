@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+
+import { Input } from "@/components/ui";
+import useDebounce from "@/hooks/useDebounce";
+import usePostSearchFilters from "@/hooks/usePostSearchFilters";
+import { PostSearchSort } from "@/lib/appwrite/api";
+
+const SORT_OPTIONS: { value: PostSearchSort; label: string }[] = [
+  { value: "relevance", label: "Relevance" },
+  { value: "newest", label: "Newest" },
+];
+
+const PostSearchFilterBar = () => {
+  const { filters, hasActiveFilters, updateFilters, resetFilters } = usePostSearchFilters();
+  const [location, setLocation] = useState(filters.location ?? "");
+  const debouncedLocation = useDebounce(location, 500);
+
+  useEffect(() => {
+    if (debouncedLocation.trim() !== (filters.location ?? "")) {
+      updateFilters({ location: debouncedLocation });
+    }
+  }, [debouncedLocation]);
+
+  useEffect(() => {
+    setLocation(filters.location ?? "");
+  }, [filters.location]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 w-full">
+      <div className="flex gap-3">
+        {SORT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={`small-medium ${
+              filters.sort === option.value ? "text-light-1" : "text-light-3"
+            }`}
+            onClick={() => updateFilters({ sort: option.value })}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 small-regular text-light-3">
+        From
+        <input
+          type="date"
+          className="rounded-md bg-dark-4 px-2 py-1 text-light-1"
+          value={filters.from ?? ""}
+          max={filters.to}
+          onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+        />
+      </label>
+
+      <label className="flex items-center gap-2 small-regular text-light-3">
+        To
+        <input
+          type="date"
+          className="rounded-md bg-dark-4 px-2 py-1 text-light-1"
+          value={filters.to ?? ""}
+          min={filters.from}
+          onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+        />
+      </label>
+
+      <Input
+        type="text"
+        placeholder="Location"
+        className="shad-input h-9 w-40"
+        value={location}
+        onChange={(e) => setLocation(e.target.value)}
+      />
+
+      <label className="flex items-center gap-2 small-regular text-light-2">
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-primary-500"
+          checked={!!filters.followingOnly}
+          onChange={(e) => updateFilters({ followingOnly: e.target.checked })}
+        />
+        Only people I follow
+      </label>
+
+      {hasActiveFilters && (
+        <button
+          type="button"
+          className="small-medium text-primary-500"
+          onClick={resetFilters}>
+          Reset
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PostSearchFilterBar;
@@ -8,8 +8,12 @@ import {
   useSavePost,
   useDeleteSavedPost,
   useGetCurrentUser,
+  useGetPostComments,
+  useCreateComment,
+  useEditComment,
+  useDeleteComment,
 } from "@/lib/react-query/queries";
-import { CommentData, createComment, deleteComment, editComment, getCommentsData } from "@/lib/appwrite/api";
+import { CommentData, CommentSort } from "@/lib/appwrite/api";
 import PopupComment from "./popupComment";
 import { useUserContext } from "@/context/AuthContext";
 
@@ -17,16 +21,33 @@ import { useUserContext } from "@/context/AuthContext";
 type PostStatsProps = {
   post: Models.Document;
   userId: string;
+  replyTo?: CommentData | null;
+  onCancelReply?: () => void;
 };
 
-const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
+const PostStats: React.FC<PostStatsProps> = ({ post, userId, replyTo = null, onCancelReply }) => {
   const [showCommentForm, setShowCommentForm] = useState(false);
   const [showPopupComment, setShowPopupComment] = useState(false); 
-  const [commentsData, setCommentsData] = useState<CommentData[]>([]);
   const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
-  const [loadingComments, setLoadingComments] = useState(false); 
+  const [popupReplyTo, setPopupReplyTo] = useState<CommentData | null>(null);
+  const [popupSort, setPopupSort] = useState<CommentSort>("oldest");
   const { user } = useUserContext();
 
+  const {
+    data: comments,
+    isLoading: loadingComments,
+    fetchNextPage: fetchMoreComments,
+    hasNextPage: hasMoreComments,
+  } = useGetPostComments(showPopupComment ? post.$id : undefined, popupSort);
+  const commentsData = comments?.pages.flatMap((page) => page.documents) ?? [];
+  // Kept locally like `likes`, so a comment made from a feed card shows up
+  // without refetching the feed.
+  const [commentCount, setCommentCount] = useState<number>(post.commentsCount ?? 0);
+
+  useEffect(() => {
+    setCommentCount(post.commentsCount ?? 0);
+  }, [post.commentsCount]);
+
   const location = useLocation();
   const likesList = post.likes.map((user: Models.Document) => user.$id);
 
@@ -36,6 +57,9 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
   const { mutate: likePost } = useLikePost();
   const { mutate: savePost } = useSavePost();
   const { mutate: deleteSavePost } = useDeleteSavedPost();
+  const { mutate: createComment } = useCreateComment();
+  const { mutate: editComment } = useEditComment();
+  const { mutate: deleteComment } = useDeleteComment();
 
   const { data: currentUser, refetch: refetchCurrentUser } = useGetCurrentUser();
 
@@ -64,33 +88,17 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
     setShowPopupComment(false);
   };
 
-  const handleCommentMobile = async () => {
+  const handleCommentMobile = () => {
     setShowPopupComment(true); 
-    try {
-      setLoadingComments(true);
-      const data = await getCommentsData();
-      setCommentsData(data);
-    } catch (error) {
-      console.error("Error fetching comments:", error);
-
-    } finally {
-      setLoadingComments(false); 
-    }
   };
 
-  const handleEditComment = async (commentId: string, updatedCommentText: string) => {
-    try {
-      const updatedComment = await editComment(commentId, {
-        commentText: updatedCommentText,
-      });
-      const updatedCommentsData = commentsData.map((comment) =>
-        comment.commentId === commentId ? updatedComment : comment
-      );
-      setCommentsData(updatedCommentsData);
-      setEditingCommentId(null);
-    } catch (error) {
-      console.error("Error editing comment:", error);
-    }
+  const handleEditComment = (commentId: string, updatedCommentText: string) => {
+    editComment({
+      postId: post.$id,
+      commentId,
+      commentText: updatedCommentText,
+    });
+    setEditingCommentId(null);
   };
 
   const handleCancelEdit = () => {
@@ -100,14 +108,13 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
     setEditingCommentId(commentId);
   };
 
-  const handleDeleteComment = async (commentId: string) => {
-    try {
-      await deleteComment(commentId);
-      const updatedCommentsData = commentsData.filter((comment) => comment.commentId !== commentId);
-      setCommentsData(updatedCommentsData);
-    } catch (error) {
-      console.error("Error deleting comment:", error);
-    }
+  const handleDeleteComment = (commentId: string) => {
+    deleteComment(
+      { postId: post.$id, commentId },
+      {
+        onSuccess: () => setCommentCount((count) => Math.max(count - 1, 0)),
+      }
+    );
   };
 
   const handleLikePost = async (e: React.MouseEvent<HTMLImageElement, MouseEvent>) => {
@@ -142,16 +149,24 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
     setIsSaved(true);
   };
 
-  const handleCommentFormSubmit = async (formData: { comment: string }) => {
-    try {
-      const commentText = formData.comment;
-      const postId = post.$id
-      await createComment(commentText, postId);
-  
-      setShowCommentForm(false);
-    } catch (error: any) {
-      console.error('Error creating comment:', error.message);
-      }
+  const handleCancelReply = () => {
+    setPopupReplyTo(null);
+    onCancelReply?.();
+  };
+
+  const handleCommentFormSubmit = (formData: { comment: string; parentId?: string | null }) => {
+    createComment(
+      {
+        postId: post.$id,
+        commentText: formData.comment,
+        parentId: formData.parentId,
+        author: user,
+      },
+      { onSuccess: () => setCommentCount((count) => count + 1) }
+    );
+
+    setShowCommentForm(false);
+    handleCancelReply();
   };
   const containerStyles = location.pathname.startsWith("/profile")
     ? "w-full"
@@ -187,6 +202,7 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
                 className="cursor-pointer"
                 onClick={handleCommentClick}
                 />
+              <p className="lg:base-medium">{commentCount}</p>
             </div>
             
             <div className="flex gap-2 mr-5 md:hidden">
@@ -198,6 +214,7 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
               className="cursor-pointer"
               onClick={handleCommentMobile}
             />
+            <p className="lg:base-medium">{commentCount}</p>
           </div>
         </div>
 
@@ -214,10 +231,19 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
       </div>
       <div>
       <div>
-        {showCommentForm && <CommentForm onSubmit={handleCommentFormSubmit} />}
+        {(showCommentForm || replyTo) && (
+          <CommentForm
+            onSubmit={handleCommentFormSubmit}
+            replyTo={replyTo}
+            onCancelReply={handleCancelReply}
+          />
+        )}
         {showPopupComment && (
         <PopupComment
-          onClose={() => setShowPopupComment(false)}
+          onClose={() => {
+            setShowPopupComment(false);
+            setPopupReplyTo(null);
+          }}
           comments={commentsData}
           editingCommentId={editingCommentId}
           handleEditComment={handleEditComment}
@@ -225,8 +251,14 @@ const PostStats: React.FC<PostStatsProps> = ({ post, userId }) => {
           user={user}
           handleEditButtonClick={handleEditButtonClick}
           handleDeleteComment={handleDeleteComment}
+          handleReplyButtonClick={setPopupReplyTo}
+          replyTo={popupReplyTo}
+          handleCancelReply={handleCancelReply}
           loading={loadingComments}
-          postId={post.$id}
+          sort={popupSort}
+          onSortChange={setPopupSort}
+          hasMore={!!hasMoreComments}
+          onLoadMore={() => fetchMoreComments()}
           handleCommentFormSubmit={handleCommentFormSubmit}
         />
       )}
@@ -0,0 +1,56 @@
+import { CSSProperties, useEffect, useRef, useState } from "react";
+import { useInView } from "react-intersection-observer";
+
+import { IPostMedia } from "@/types";
+
+type PostVideoProps = {
+  video: IPostMedia;
+  className?: string;
+  style?: CSSProperties;
+};
+
+// Plays muted while mostly on screen, like other feeds; tapping toggles sound.
+const PostVideo = ({ video, className = "", style }: PostVideoProps) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [isMuted, setIsMuted] = useState(true);
+  const { ref, inView } = useInView({ threshold: 0.6 });
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element) return;
+
+    if (inView) {
+      // Browsers may still refuse autoplay; the poster stays up in that case.
+      element.play().catch(() => {});
+    } else {
+      element.pause();
+    }
+  }, [inView]);
+
+  return (
+    <div ref={ref} className="relative w-full">
+      <video
+        ref={videoRef}
+        src={video.url}
+        poster={video.posterUrl}
+        muted={isMuted}
+        loop
+        playsInline
+        preload="metadata"
+        className={`w-full cursor-pointer ${className}`}
+        style={style}
+        onClick={() => setIsMuted((prev) => !prev)}
+      />
+
+      <img
+        src={isMuted ? "/assets/icons/volume-off.svg" : "/assets/icons/volume-on.svg"}
+        alt={isMuted ? "muted" : "sound on"}
+        width={20}
+        height={20}
+        className="absolute bottom-4 right-4 rounded-full bg-dark-1/70 p-1 box-content pointer-events-none"
+      />
+    </div>
+  );
+};
+
+export default PostVideo;
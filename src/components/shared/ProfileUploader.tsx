@@ -1,7 +1,8 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { FileWithPath, useDropzone } from "react-dropzone";
 
-import { convertFileToUrl } from "@/lib/utils";
+import { AVATAR_CROP_ASPECTS, CroppedImage } from "@/lib/media";
+import ImageCropper from "./ImageCropper";
 
 type ProfileUploaderProps = {
   fieldChange: (files: File[]) => void;
@@ -9,18 +10,23 @@ type ProfileUploaderProps = {
 };
 
 const ProfileUploader = ({ fieldChange, mediaUrl }: ProfileUploaderProps) => {
-  const [file, setFile] = useState<File[]>([]);
   const [fileUrl, setFileUrl] = useState<string>(mediaUrl);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  // The cropped preview's object URL; `mediaUrl` is the stored photo and
+  // never needs revoking.
+  const previewUrlRef = useRef<string | null>(null);
 
-  const onDrop = useCallback(
-    (acceptedFiles: FileWithPath[]) => {
-      setFile(acceptedFiles);
-      fieldChange(acceptedFiles);
-      setFileUrl(convertFileToUrl(acceptedFiles[0]));
+  useEffect(
+    () => () => {
+      if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
     },
-    [file]
+    []
   );
 
+  const onDrop = useCallback((acceptedFiles: FileWithPath[]) => {
+    if (acceptedFiles[0]) setPendingFile(acceptedFiles[0]);
+  }, []);
+
   const { getRootProps, getInputProps } = useDropzone({
     onDrop,
     accept: {
@@ -28,20 +34,40 @@ const ProfileUploader = ({ fieldChange, mediaUrl }: ProfileUploaderProps) => {
     },
   });
 
+  const handleCropApply = ({ file, previewUrl }: CroppedImage) => {
+    setPendingFile(null);
+    fieldChange([file]);
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+    previewUrlRef.current = previewUrl;
+    setFileUrl(previewUrl);
+  };
+
   return (
-    <div {...getRootProps()}>
-      <input {...getInputProps()} className="cursor-pointer" />
-
-      <div className="cursor-pointer flex-center gap-4">
-        <img
-          src={fileUrl || "/assets/icons/profile-placeholder.svg"}
-          alt="image"
-          className="h-24 w-24 rounded-full object-cover object-top"
-        />
-        <p className="text-primary-500 small-regular md:bbase-semibold">
-          Change profile photo
-        </p>
+    <div className="flex flex-col gap-5">
+      <div {...getRootProps()}>
+        <input {...getInputProps()} className="cursor-pointer" />
+
+        <div className="cursor-pointer flex-center gap-4">
+          <img
+            src={fileUrl || "/assets/icons/profile-placeholder.svg"}
+            alt="image"
+            className="h-24 w-24 rounded-full object-cover object-top"
+          />
+          <p className="text-primary-500 small-regular md:bbase-semibold">
+            Change profile photo
+          </p>
+        </div>
       </div>
+
+      {pendingFile && (
+        <ImageCropper
+          file={pendingFile}
+          aspects={AVATAR_CROP_ASPECTS}
+          shape="circle"
+          onApply={handleCropApply}
+          onCancel={() => setPendingFile(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from "react";
+
+import { Input } from "@/components/ui";
+import useSearchSuggestions, { SearchSuggestion } from "@/hooks/useSearchSuggestions";
+import SearchHistoryPanel from "./SearchHistoryPanel";
+
+type SearchBarProps = {
+  initialValue?: string;
+  className?: string;
+};
+
+const SuggestionContent = ({ suggestion }: { suggestion: SearchSuggestion }) => {
+  switch (suggestion.type) {
+    case "user":
+      return (
+        <>
+          <img
+            src={suggestion.user.imageUrl || "/assets/icons/profile-placeholder.svg"}
+            alt="user"
+            className="h-7 w-7 rounded-full"
+          />
+          <span className="flex flex-col">
+            <span className="small-semibold text-light-1">{suggestion.user.name}</span>
+            <span className="tiny-medium text-light-3">@{suggestion.user.username}</span>
+          </span>
+        </>
+      );
+    case "tag":
+      return (
+        <>
+          <span className="flex-center h-7 w-7 rounded-full bg-dark-4 text-light-2">#</span>
+          <span className="flex flex-col">
+            <span className="small-semibold text-light-1">#{suggestion.tag}</span>
+            <span className="tiny-medium text-light-3">
+              {suggestion.count} {suggestion.count === 1 ? "post" : "posts"}
+            </span>
+          </span>
+        </>
+      );
+    default:
+      return (
+        <>
+          <img src="/assets/icons/search.svg" alt="search" width={20} height={20} />
+          <span className="small-medium text-light-1">
+            Search for &ldquo;{suggestion.term}&rdquo;
+          </span>
+        </>
+      );
+  }
+};
+
+const SearchBar = ({ initialValue = "", className = "" }: SearchBarProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [value, setValue] = useState(initialValue);
+  const { isOpen, suggestions, activeIndex, selectSuggestion, open, close, onKeyDown } =
+    useSearchSuggestions(value);
+
+  useEffect(() => {
+    setValue(initialValue);
+  }, [initialValue]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) close();
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  return (
+    <div ref={containerRef} className={`relative w-full ${className}`}>
+      <div className="flex gap-1 px-4 w-full rounded-lg bg-dark-4">
+        <img src="/assets/icons/search.svg" width={24} height={24} alt="search" />
+        <Input
+          type="text"
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls="search-suggestions"
+          placeholder="Search posts, people and tags"
+          className="explore-search"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            open();
+          }}
+          onFocus={open}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+
+      {isOpen && !value.trim() && (
+        <div className="absolute left-0 right-0 top-full mt-2 z-50 rounded-lg border border-dark-4 bg-dark-3 shadow-lg">
+          <SearchHistoryPanel
+            onSelectTerm={(term) => {
+              setValue(term);
+              selectSuggestion({ type: "query", term });
+            }}
+            onNavigate={close}
+          />
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 z-50 rounded-lg border border-dark-4 bg-dark-3 py-1 shadow-lg">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={
+                suggestion.type === "user"
+                  ? suggestion.user.$id
+                  : suggestion.type === "tag"
+                  ? `tag-${suggestion.tag}`
+                  : "query"
+              }
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${
+                index === activeIndex ? "bg-dark-4" : ""
+              }`}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}>
+              <SuggestionContent suggestion={suggestion} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
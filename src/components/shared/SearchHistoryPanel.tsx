@@ -0,0 +1,124 @@
+import { Link } from "react-router-dom";
+
+import { useUserContext } from "@/context/AuthContext";
+import {
+  useClearSearchHistory,
+  useGetSearchHistory,
+  useGetTrendingTags,
+  useRemoveSearchHistoryItem,
+} from "@/lib/react-query/queries";
+
+type SearchHistoryPanelProps = {
+  onSelectTerm: (term: string) => void;
+  onNavigate?: () => void;
+};
+
+const RemoveButton = ({ label, onClick }: { label: string; onClick: () => void }) => (
+  <button
+    type="button"
+    aria-label={label}
+    className="px-2 text-light-3 hover:text-light-1"
+    onMouseDown={(e) => e.preventDefault()}
+    onClick={onClick}>
+    ×
+  </button>
+);
+
+const SearchHistoryPanel = ({ onSelectTerm, onNavigate }: SearchHistoryPanelProps) => {
+  const { user } = useUserContext();
+  const { data: history } = useGetSearchHistory(user.id);
+  const { data: trendingTags } = useGetTrendingTags();
+  const { mutate: removeItem } = useRemoveSearchHistoryItem();
+  const { mutate: clearHistory } = useClearSearchHistory();
+
+  const searches = history?.searches ?? [];
+  const profiles = history?.profiles ?? [];
+  const hasHistory = searches.length > 0 || profiles.length > 0;
+
+  return (
+    <div className="flex flex-col gap-4 py-3">
+      {hasHistory && (
+        <section className="flex flex-col gap-1">
+          <div className="flex-between px-4">
+            <p className="small-semibold text-light-2">Recent</p>
+            <button
+              type="button"
+              className="tiny-medium text-primary-500"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => clearHistory({ userId: user.id })}>
+              Clear all
+            </button>
+          </div>
+
+          <ul>
+            {profiles.map((profile) => (
+              <li key={profile.$id} className="flex-between px-4 py-2 hover:bg-dark-4">
+                <Link
+                  to={`/profile/${profile.$id}`}
+                  className="flex items-center gap-3 flex-1"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={onNavigate}>
+                  <img
+                    src={profile.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                    alt="profile"
+                    className="h-7 w-7 rounded-full"
+                  />
+                  <span className="flex flex-col">
+                    <span className="small-semibold text-light-1">{profile.name}</span>
+                    <span className="tiny-medium text-light-3">@{profile.username}</span>
+                  </span>
+                </Link>
+                <RemoveButton
+                  label={`Remove ${profile.username} from recent`}
+                  onClick={() => removeItem({ userId: user.id, profileId: profile.$id })}
+                />
+              </li>
+            ))}
+
+            {searches.map((term) => (
+              <li key={term} className="flex-between px-4 py-2 hover:bg-dark-4">
+                <button
+                  type="button"
+                  className="flex items-center gap-3 flex-1 text-left"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onSelectTerm(term)}>
+                  <img src="/assets/icons/search.svg" alt="search" width={18} height={18} />
+                  <span className="small-medium text-light-1">{term}</span>
+                </button>
+                <RemoveButton
+                  label={`Remove ${term} from recent`}
+                  onClick={() => removeItem({ userId: user.id, searchTerm: term })}
+                />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {trendingTags && trendingTags.length > 0 && (
+        <section className="flex flex-col gap-2 px-4">
+          <p className="small-semibold text-light-2">Trending</p>
+          <ul className="flex flex-wrap gap-2">
+            {trendingTags.map(({ tag }) => (
+              <li key={tag}>
+                <Link
+                  to={`/tags/${encodeURIComponent(tag)}`}
+                  className="tiny-medium text-light-2 bg-dark-4 rounded-full px-3 py-1"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={onNavigate}>
+                  #{tag}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!hasHistory && (!trendingTags || trendingTags.length === 0) && (
+        <p className="small-regular text-light-3 px-4">No recent searches</p>
+      )}
+    </div>
+  );
+};
+
+export default SearchHistoryPanel;
@@ -0,0 +1,44 @@
+import { useGetCurrentUser, useDismissSuggestion, useGetSuggestedUsers } from "@/lib/react-query/queries";
+import Loader from "./Loader";
+import UserCard from "./UserCard";
+
+type SuggestedUsersProps = {
+  limit?: number;
+  listClassName?: string;
+  itemClassName?: string;
+};
+
+const getMutualLabel = (mutualCount: number) =>
+  mutualCount > 0
+    ? `Followed by ${mutualCount} ${mutualCount === 1 ? "person" : "people"} you follow`
+    : undefined;
+
+const SuggestedUsers = ({ limit = 10, listClassName, itemClassName }: SuggestedUsersProps) => {
+  const { data: currentUser } = useGetCurrentUser();
+  const { data: suggestions, isLoading } = useGetSuggestedUsers(currentUser, limit);
+  const { mutate: dismissSuggestion } = useDismissSuggestion();
+
+  if (!currentUser || (isLoading && !suggestions)) return <Loader />;
+
+  if (!suggestions || suggestions.length === 0) {
+    return <p className="text-light-4">No suggestions right now</p>;
+  }
+
+  return (
+    <ul className={listClassName}>
+      {suggestions.map(({ user, mutualCount }) => (
+        <li key={user.$id} className={itemClassName}>
+          <UserCard
+            user={user}
+            subtitle={getMutualLabel(mutualCount)}
+            onDismiss={() =>
+              dismissSuggestion({ userId: currentUser.$id, suggestedUserId: user.$id })
+            }
+          />
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SuggestedUsers;
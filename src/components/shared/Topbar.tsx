@@ -1,12 +1,14 @@
 import { useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 
 import { Button } from "../ui/button";
 import { useUserContext } from "@/context/AuthContext";
 import { useSignOutAccount } from "@/lib/react-query/queries";
+import SearchBar from "./SearchBar";
 
 const Topbar = () => {
   const navigate = useNavigate();
+  const { pathname } = useLocation();
   const { user } = useUserContext();
   const { mutate: signOut, isSuccess } = useSignOutAccount();
 
@@ -27,6 +29,9 @@ const Topbar = () => {
         </Link>
 
         <div className="flex gap-4">
+          <Link to="/notifications" className="flex-center">
+            <img src="/assets/icons/chat.svg" alt="notifications" />
+          </Link>
           <Button
             variant="ghost"
             className="shad-button_ghost"
@@ -42,6 +47,11 @@ const Topbar = () => {
           </Link>
         </div>
       </div>
+      {pathname !== "/search" && (
+        <div className="px-5 pb-4">
+          <SearchBar />
+        </div>
+      )}
     </section>
   );
 };
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+
+import { useToast } from "@/components/ui/use-toast";
+import {
+  useBlockUser,
+  useGetUserRelationship,
+  useMuteUser,
+  useUnblockUser,
+  useUnmuteUser,
+} from "@/lib/react-query/queries";
+
+type UserActionsMenuProps = {
+  userId: string;
+  username: string;
+};
+
+const UserActionsMenu = ({ userId, username }: UserActionsMenuProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const { data: relationship } = useGetUserRelationship(isOpen ? userId : undefined);
+  const blockMutation = useBlockUser();
+  const unblockMutation = useUnblockUser();
+  const muteMutation = useMuteUser();
+  const unmuteMutation = useUnmuteUser();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const runAction = async (
+    action: (targetUserId: string) => Promise<unknown>,
+    successTitle: string
+  ) => {
+    setIsOpen(false);
+
+    try {
+      await action(userId);
+      toast({ title: successTitle });
+    } catch (error) {
+      toast({ title: "Something went wrong. Please try again." });
+    }
+  };
+
+  const handleBlock = () => {
+    if (!window.confirm(`Block @${username}? They won't be able to see your posts or follow you.`)) {
+      setIsOpen(false);
+      return;
+    }
+
+    runAction(blockMutation.mutateAsync, `Blocked @${username}`);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        aria-label="More actions"
+        className="flex-center p-1"
+        onClick={() => setIsOpen((prev) => !prev)}>
+        <img src="/assets/icons/more.svg" alt="more" width={20} height={20} />
+      </button>
+
+      {isOpen && (
+        <ul className="absolute right-0 top-full mt-2 z-30 min-w-[160px] rounded-lg border border-dark-4 bg-dark-3 py-1 shadow-lg">
+          {!relationship ? (
+            <li className="px-4 py-2 small-regular text-light-3">Loading...</li>
+          ) : (
+            <>
+              <li>
+                <button
+                  type="button"
+                  className="w-full text-left px-4 py-2 small-medium text-light-1 hover:bg-dark-4"
+                  onClick={() =>
+                    relationship.isMuted
+                      ? runAction(unmuteMutation.mutateAsync, `Unmuted @${username}`)
+                      : runAction(muteMutation.mutateAsync, `Muted @${username}`)
+                  }>
+                  {relationship.isMuted ? "Unmute" : "Mute"}
+                </button>
+              </li>
+              <li>
+                <button
+                  type="button"
+                  className="w-full text-left px-4 py-2 small-medium text-red hover:bg-dark-4"
+                  onClick={() =>
+                    relationship.isBlocked
+                      ? runAction(unblockMutation.mutateAsync, `Unblocked @${username}`)
+                      : handleBlock()
+                  }>
+                  {relationship.isBlocked ? "Unblock" : "Block"}
+                </button>
+              </li>
+            </>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UserActionsMenu;
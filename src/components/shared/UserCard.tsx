@@ -1,15 +1,27 @@
 import { Button } from "../ui/button";
 import { Models } from "appwrite";
 import { Link } from "react-router-dom";
-import { useFollowUser, useIsFollowingQuery, useUnfollowUser, useCurrentUser } from "@/lib/react-query/queries";
+import {
+  useFollowUser,
+  useIsFollowingQuery,
+  useUnfollowUser,
+  useCurrentUser,
+  useHasRequestedFollow,
+} from "@/lib/react-query/queries";
 
 type UserCardProps = {
   user: Models.Document;
+  followsYou?: boolean;
+  subtitle?: string;
+  onDismiss?: () => void;
 };
 
-const UserCard = ({ user }: UserCardProps) => {
+const UserCard = ({ user, followsYou = false, subtitle, onDismiss }: UserCardProps) => {
   const { data: currentUser } = useCurrentUser();
   const { data: isFollowingUser, refetch } = useIsFollowingQuery(user.$id); // Destructure refetch function
+  const { data: hasRequested = false } = useHasRequestedFollow(
+    user.isPrivate && isFollowingUser === false ? user.$id : ""
+  );
   const followUserMutation = useFollowUser();
   const unfollowUserMutation = useUnfollowUser();
 
@@ -36,7 +48,16 @@ const UserCard = ({ user }: UserCardProps) => {
   }
 
   return (
-    <div className="user-card flex">
+    <div className="user-card flex relative">
+      {onDismiss && (
+        <button
+          type="button"
+          aria-label="Dismiss suggestion"
+          className="absolute top-2 right-3 text-light-3 hover:text-light-1"
+          onClick={onDismiss}>
+          ×
+        </button>
+      )}
       <Link to={`/profile/${user.$id}`} className="flex flex-col items-center">
         <img
           src={user.imageUrl || "/assets/icons/profile-placeholder.svg"}
@@ -50,6 +71,16 @@ const UserCard = ({ user }: UserCardProps) => {
           <p className="small-regular text-light-3 text-center line-clamp-1">
             @{user.username}
           </p>
+          {subtitle && (
+            <p className="tiny-medium text-light-3 text-center line-clamp-1">
+              {subtitle}
+            </p>
+          )}
+          {followsYou && (
+            <span className="tiny-medium text-light-3 bg-dark-4 rounded px-2 py-0.5">
+              Follows you
+            </span>
+          )}
         </div>
       </Link>
       {currentUser?.$id !== user.$id && isFollowingUser !== undefined && ( 
@@ -57,9 +88,9 @@ const UserCard = ({ user }: UserCardProps) => {
           type="button"
           size="sm"
           className="shad-button_primary px-5"
-          onClick={isFollowingUser ? handleUnfollow : handleFollow}
+          onClick={isFollowingUser || hasRequested ? handleUnfollow : handleFollow}
         >
-          {isFollowingUser ? "Unfollow" : "Follow"}
+          {isFollowingUser ? "Unfollow" : hasRequested ? "Requested" : "Follow"}
         </Button>
       )}
     </div>
@@ -1,7 +1,9 @@
 import React from "react";
-import { CommentData } from "@/lib/appwrite/api";
+import { CommentData, CommentSort } from "@/lib/appwrite/api";
+import { buildCommentThreads } from "@/lib/utils";
 import { Loader } from "@/components/shared";
 import CommentRender from "./CommentRender";
+import CommentSortToggle from "./CommentSortToggle";
 import CommentFormMobile from "../forms/CommentFormMobile";
 
 
@@ -9,14 +11,20 @@ type PopupCommentProps = {
     onClose: () => void;
     comments: CommentData[];
     editingCommentId: string | null;
-    handleEditComment: (commentId: string, updatedCommentText: string) => Promise<void>;
+    handleEditComment: (commentId: string, updatedCommentText: string) => void;
     handleCancelEdit: () => void;
     user: any;
     handleEditButtonClick: (commentId: string) => void;
     handleDeleteComment: (commentId: string) => void;
+    handleReplyButtonClick: (comment: CommentData) => void;
+    replyTo: CommentData | null;
+    handleCancelReply: () => void;
     loading: boolean;
-    postId: string;
-    handleCommentFormSubmit: (formData: { comment: string }) => Promise<void>;
+    sort: CommentSort;
+    onSortChange: (sort: CommentSort) => void;
+    hasMore: boolean;
+    onLoadMore: () => void;
+    handleCommentFormSubmit: (formData: { comment: string; parentId?: string | null }) => void;
     commentFormClassName?: string; 
   };
   
@@ -29,11 +37,19 @@ type PopupCommentProps = {
     user,
     handleEditButtonClick,
     handleDeleteComment,
+    handleReplyButtonClick,
+    replyTo,
+    handleCancelReply,
     loading,
-    postId,
+    sort,
+    onSortChange,
+    hasMore,
+    onLoadMore,
     handleCommentFormSubmit,
     commentFormClassName
   }) => {
+    const threads = buildCommentThreads(comments);
+
     return (
       <div id="static-modal" data-modal-backdrop="static" tabIndex={-1} aria-hidden="true" className="overflow-y-auto overflow-x-hidden fixed top-0 right-0 left-0 z-50 justify-center items-center w-full md:inset-0 h-[calc(100%-1rem)] max-h-screen">
         <div className="relative p-4 w-full max-w-2xl max-h-full">
@@ -52,13 +68,12 @@ type PopupCommentProps = {
               </button>
             </div>
             <div className="p-4 md:p-5 space-y-4 ">
+              <CommentSortToggle sort={sort} onChange={onSortChange} />
               {loading ? (
                   <Loader />
                   ) : (
                 <ul>
-                  {comments
-                    .filter((comment) => comment.postId === postId)
-                    .map((comment) => (
+                  {threads.map((comment) => (
                         <CommentRender
                         key={comment.commentId}
                         comment={comment}
@@ -68,14 +83,26 @@ type PopupCommentProps = {
                         user={user}
                         handleEditButtonClick={handleEditButtonClick}
                         handleDeleteComment={handleDeleteComment}
+                        handleReplyButtonClick={handleReplyButtonClick}
                         />
                         ))}
                 </ul>
               )}
+              {hasMore && (
+                <button
+                  type="button"
+                  className="small-medium text-light-3"
+                  onClick={onLoadMore}
+                >
+                  Load more comments
+                </button>
+              )}
             </div>
             <CommentFormMobile
               onSubmit={handleCommentFormSubmit}
               className={commentFormClassName}
+              replyTo={replyTo}
+              onCancelReply={handleCancelReply}
             />
           </div>
         </div>
@@ -9,6 +9,11 @@ export const sidebarLinks = [
     route: "/explore",
     label: "Explore",
   },
+  {
+    imgURL: "/assets/icons/search.svg",
+    route: "/search",
+    label: "Search",
+  },
   {
     imgURL: "/assets/icons/people.svg",
     route: "/all-users",
@@ -19,6 +24,11 @@ export const sidebarLinks = [
     route: "/saved",
     label: "Saved",
   },
+  {
+    imgURL: "/assets/icons/chat.svg",
+    route: "/notifications",
+    label: "Notifications",
+  },
   {
     imgURL: "/assets/icons/gallery-add.svg",
     route: "/create-post",
@@ -2,7 +2,12 @@ import { useNavigate } from "react-router-dom";
 import { createContext, useContext, useEffect, useState } from "react";
 
 import { IUser } from "@/types";
-import { getCurrentUser } from "@/lib/appwrite/api";
+import {
+  backfillNormalizedTags,
+  backfillUsernameLower,
+  getCurrentUser,
+  migrateLegacyFollows,
+} from "@/lib/appwrite/api";
 
 export const INITIAL_USER = {
   id: "",
@@ -11,6 +16,7 @@ export const INITIAL_USER = {
   email: "",
   imageUrl: "",
   bio: "",
+  isPrivate: false,
 };
 
 const INITIAL_STATE = {
@@ -51,8 +57,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           email: currentAccount.email,
           imageUrl: currentAccount.imageUrl,
           bio: currentAccount.bio,
+          isPrivate: currentAccount.isPrivate ?? false,
         });
         setIsAuthenticated(true);
+        // Run in the background; they only do work for accounts that still
+        // have data stored the old way.
+        migrateLegacyFollows(currentAccount);
+        backfillUsernameLower(currentAccount);
+        backfillNormalizedTags(currentAccount);
 
         return true;
       }
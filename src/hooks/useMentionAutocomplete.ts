@@ -0,0 +1,93 @@
+import { useRef, useState } from "react";
+import { Models } from "appwrite";
+
+import useDebounce from "@/hooks/useDebounce";
+import { useSearchUsersByUsername } from "@/lib/react-query/queries";
+
+const ACTIVE_MENTION_REGEX = /(?:^|\s)@([\w.]*)$/;
+
+type MentionTextArea = HTMLTextAreaElement | HTMLInputElement;
+
+export default function useMentionAutocomplete(
+  value: string,
+  onValueChange: (value: string) => void
+) {
+  const elementRef = useRef<MentionTextArea | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const debouncedQuery = useDebounce(query ?? "", 250);
+  const { data: users } = useSearchUsersByUsername(
+    query === null ? "" : debouncedQuery
+  );
+  const suggestions: Models.Document[] =
+    query === null ? [] : users?.documents ?? [];
+
+  const updateQuery = (element: MentionTextArea) => {
+    elementRef.current = element;
+    const textBeforeCaret = element.value.slice(0, element.selectionStart ?? 0);
+    const match = textBeforeCaret.match(ACTIVE_MENTION_REGEX);
+
+    setQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const selectSuggestion = (user: Models.Document) => {
+    const caret = elementRef.current?.selectionStart ?? value.length;
+    const before = value
+      .slice(0, caret)
+      .replace(/@([\w.]*)$/, `@${user.username} `);
+    const nextValue = before + value.slice(caret);
+
+    onValueChange(nextValue);
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      elementRef.current?.focus();
+      elementRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const onChange = (e: React.ChangeEvent<MentionTextArea>) => {
+    onValueChange(e.target.value);
+    updateQuery(e.target);
+  };
+
+  const onClick = (e: React.MouseEvent<MentionTextArea>) => {
+    updateQuery(e.currentTarget);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<MentionTextArea>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex(
+          (index) => (index - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter":
+      case "Tab":
+        e.preventDefault();
+        selectSuggestion(suggestions[activeIndex]);
+        break;
+      case "Escape":
+        setQuery(null);
+        break;
+    }
+  };
+
+  return {
+    suggestions,
+    activeIndex,
+    selectSuggestion,
+    onChange,
+    onClick,
+    onKeyDown,
+  };
+}
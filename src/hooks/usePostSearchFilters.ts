@@ -0,0 +1,54 @@
+import { useSearchParams } from "react-router-dom";
+
+import { PostSearchFilters } from "@/lib/appwrite/api";
+
+// Post search filters live in the query string (`sort`, `from`, `to`,
+// `location`, `following`) so filtered results can be shared and survive
+// reloads. Defaults are left out of the URL.
+export default function usePostSearchFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters: PostSearchFilters = {
+    sort: searchParams.get("sort") === "newest" ? "newest" : "relevance",
+    from: searchParams.get("from") ?? undefined,
+    to: searchParams.get("to") ?? undefined,
+    location: searchParams.get("location") ?? undefined,
+    followingOnly: searchParams.get("following") === "1",
+  };
+
+  const hasActiveFilters =
+    filters.sort !== "relevance" ||
+    !!filters.from ||
+    !!filters.to ||
+    !!filters.location ||
+    !!filters.followingOnly;
+
+  const updateFilters = (changes: PostSearchFilters) => {
+    const nextParams = new URLSearchParams(searchParams);
+    const setParam = (key: string, value?: string) =>
+      value ? nextParams.set(key, value) : nextParams.delete(key);
+
+    if ("sort" in changes) {
+      setParam("sort", changes.sort === "newest" ? "newest" : undefined);
+    }
+    if ("from" in changes) setParam("from", changes.from);
+    if ("to" in changes) setParam("to", changes.to);
+    if ("location" in changes) setParam("location", changes.location?.trim());
+    if ("followingOnly" in changes) {
+      setParam("following", changes.followingOnly ? "1" : undefined);
+    }
+
+    setSearchParams(nextParams, { replace: true });
+  };
+
+  const resetFilters = () =>
+    updateFilters({
+      sort: "relevance",
+      from: undefined,
+      to: undefined,
+      location: undefined,
+      followingOnly: false,
+    });
+
+  return { filters, hasActiveFilters, updateFilters, resetFilters };
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Models } from "appwrite";
+import { useNavigate } from "react-router-dom";
+
+import useDebounce from "@/hooks/useDebounce";
+import { useSearchTags, useSearchUsersByUsername } from "@/lib/react-query/queries";
+
+export type SearchSuggestion =
+  | { type: "query"; term: string }
+  | { type: "user"; user: Models.Document }
+  | { type: "tag"; tag: string; count: number };
+
+const SUGGESTED_TAGS_LIMIT = 4;
+
+export const getSearchPath = (term: string, tab?: string) => {
+  const params = new URLSearchParams({ q: term });
+  if (tab) params.set("tab", tab);
+
+  return `/search?${params.toString()}`;
+};
+
+export const getSuggestionPath = (suggestion: SearchSuggestion) => {
+  switch (suggestion.type) {
+    case "user":
+      return `/profile/${suggestion.user.$id}`;
+    case "tag":
+      return `/tags/${encodeURIComponent(suggestion.tag)}`;
+    default:
+      return getSearchPath(suggestion.term);
+  }
+};
+
+export default function useSearchSuggestions(value: string) {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const term = value.trim();
+  const debouncedTerm = useDebounce(term, 250);
+  const { data: users } = useSearchUsersByUsername(
+    debouncedTerm.replace(/^@/, "").toLowerCase()
+  );
+  const { data: tags } = useSearchTags(debouncedTerm, SUGGESTED_TAGS_LIMIT);
+
+  const suggestions: SearchSuggestion[] = term
+    ? [
+        { type: "query", term },
+        ...(users?.documents ?? []).map((user) => ({ type: "user" as const, user })),
+        ...(tags ?? []).map(({ tag, count }) => ({ type: "tag" as const, tag, count })),
+      ]
+    : [];
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    setIsOpen(false);
+    navigate(getSuggestionPath(suggestion));
+  };
+
+  const open = () => {
+    setIsOpen(true);
+    setActiveIndex(0);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(
+          (index) => (index - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter":
+        e.preventDefault();
+        selectSuggestion(isOpen ? suggestions[activeIndex] : suggestions[0]);
+        break;
+      case "Escape":
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return {
+    isOpen,
+    suggestions: isOpen ? suggestions : [],
+    activeIndex,
+    selectSuggestion,
+    open,
+    close: () => setIsOpen(false),
+    onKeyDown,
+  };
+}
@@ -1,6 +1,41 @@
-import { ID, Query } from "appwrite";
+import { AppwriteException, ID, Models, Query } from "appwrite";
 import { appwriteConfig, account, databases, storage, avatars, } from "./config";
-import { IUpdatePost, INewPost, INewUser, IUpdateUser } from "@/types";
+import {
+  IUpdatePost,
+  INewPost,
+  INewUser,
+  IUpdateUser,
+  IMention,
+  IMediaFile,
+  IPostMedia,
+} from "@/types";
+import {
+  SUGGESTION_ACTIVITY_WINDOW_DAYS,
+  buildTagAffinity,
+  getInteractedCreatorIds,
+  rankPosts,
+  scoreSuggestion,
+  scoreUserMatch,
+} from "@/lib/ranking";
+import {
+  AVATAR_IMAGE_OPTIONS,
+  POST_IMAGE_OPTIONS,
+  ProcessedImage,
+  captureVideoPoster,
+  isVideoFile,
+  processImage,
+} from "@/lib/media";
+import {
+  extractMentionUsernames,
+  getMediaFileIds,
+  getMediaThumbnail,
+  getPostMedia,
+  normalizeTag,
+  normalizeTags,
+  parseMentions,
+  serializeMedia,
+  serializeMentions,
+} from "@/lib/utils";
 import { ReactNode } from "react";
 
 // ============================================================
@@ -49,7 +84,7 @@ export async function saveUserToDB(user: {
       appwriteConfig.databaseId,
       appwriteConfig.userCollectionId,
       ID.unique(),
-      user
+      { ...user, usernameLower: user.username?.toLowerCase(), followersCount: 0 }
     );
 
     return newUser;
@@ -117,53 +152,175 @@ export async function signOutAccount() {
 // ============================================================
 
 // ============================== CREATE POST
-export async function createPost(post: INewPost) {
-  try {
-    const uploadedFile = await uploadFile(post.file[0]);
-
-    if (!uploadedFile) throw Error;
+export async function createPost(post: INewPost, upload: PostUploadOptions = {}) {
+  let media: IPostMedia[] = [];
+  let newPost: Models.Document | undefined;
 
-    const fileUrl = getFilePreview(uploadedFile.$id);
-    if (!fileUrl) {
-      await deleteFile(uploadedFile.$id);
-      throw Error;
-    }
+  try {
+    media = await uploadPostMedia(post.media, upload);
 
-    const tags = post.tags?.replace(/ /g, "").split(",") || [];
+    const tags = normalizeTags(post.tags);
+    const mentions = await resolveMentions(post.caption);
+    throwIfAborted(upload.signal);
+    upload.onUploadsDone?.();
 
-    const newPost = await databases.createDocument(
+    // A fixed id means a retry whose first attempt did land hits a conflict
+    // instead of creating the post twice.
+    const postId = ID.unique();
+    newPost = await withRetry(() => databases.createDocument(
       appwriteConfig.databaseId,
       appwriteConfig.postCollectionId,
-      ID.unique(),
+      postId,
       {
         creator: post.userId,
         caption: post.caption,
-        imageUrl: fileUrl,
-        imageId: uploadedFile.$id,
+        imageUrl: getMediaThumbnail(media[0]),
+        imageId: media[0].posterId ?? media[0].id,
+        media: serializeMedia(media),
         location: post.location,
         tags: tags,
+        mentions: serializeMentions(mentions),
+        commentsCount: 0,
       }
-    );
+    )).catch((error) => {
+      if (error instanceof AppwriteException && error.code === 409) {
+        return databases.getDocument(
+          appwriteConfig.databaseId,
+          appwriteConfig.postCollectionId,
+          postId
+        );
+      }
+      throw error;
+    });
 
-    if (!newPost) {
-      await deleteFile(uploadedFile.$id);
-      throw Error;
-    }
+    if (!newPost) throw Error;
+
+    await createMentionNotifications({
+      actorId: post.userId,
+      mentions,
+      postId: newPost.$id,
+    });
 
     return newPost;
   } catch (error) {
+    // Nothing references the uploads if the post was never created.
+    if (!newPost) await deleteFiles(getMediaFileIds(media));
     console.log(error);
   }
 }
 
+// ============================== UPLOAD RETRY
+// Uploads and post writes are retried on network errors, timeouts, rate limits
+// and server errors, waiting 0.5s, 1s, ... (with jitter) between attempts.
+const RETRY_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+
+export type UploadOptions = {
+  signal?: AbortSignal;
+  // Fraction between 0 and 1. The SDK only reports progress for chunked
+  // (over 5 MB) uploads; smaller files jump from 0 to 1.
+  onProgress?: (progress: number) => void;
+};
+
+export type PostUploadOptions = {
+  signal?: AbortSignal;
+  // Called per picked file, indexed in the order the new files were given.
+  onProgress?: (fileIndex: number, progress: number) => void;
+  // Called once an image is downsized, before its upload starts.
+  onProcessed?: (fileIndex: number, image: ProcessedImage) => void;
+  // Called when the uploads are stored and the post itself is written. The
+  // write can't be taken back, so aborting from here on has no effect.
+  onUploadsDone?: () => void;
+};
+
+const abortError = () => new DOMException("Upload canceled", "AbortError");
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const isTransientError = (error: unknown) =>
+  error instanceof AppwriteException &&
+  (error.code === 0 || error.code === 408 || error.code === 429 || error.code >= 500);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+async function withRetry<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= RETRY_ATTEMPTS || !isTransientError(error)) throw error;
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      await wait(delay, signal);
+    }
+  }
+}
+
+// The SDK can't abort a request in flight, so a canceled upload is abandoned
+// right away and whatever it stores is deleted once it lands.
+function abandonOnAbort(upload: Promise<Models.File>, signal?: AbortSignal) {
+  if (!signal) return upload;
+
+  return new Promise<Models.File>((resolve, reject) => {
+    const onAbort = () => {
+      reject(abortError());
+      upload.then((file) => deleteFile(file.$id)).catch(() => {});
+    };
+
+    if (signal.aborted) return onAbort();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    upload
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 // ============================== UPLOAD FILE
-export async function uploadFile(file: File) {
+export async function uploadFile(file: File, { signal, onProgress }: UploadOptions = {}) {
+  // Every attempt reuses the id: chunked uploads resume where they stopped, and
+  // an attempt whose response was lost shows up as a conflict.
+  const fileId = ID.unique();
+
+  const createFile = async () => {
+    try {
+      return await storage.createFile(
+        appwriteConfig.storageId,
+        fileId,
+        file,
+        undefined,
+        (progress) => onProgress?.(progress.progress / 100)
+      );
+    } catch (error) {
+      if (error instanceof AppwriteException && error.code === 409) {
+        return storage.getFile(appwriteConfig.storageId, fileId);
+      }
+      throw error;
+    }
+  };
+
   try {
-    const uploadedFile = await storage.createFile(
-      appwriteConfig.storageId,
-      ID.unique(),
-      file
-    );
+    onProgress?.(0);
+    const uploadedFile = await abandonOnAbort(withRetry(createFile, signal), signal);
+    onProgress?.(1);
 
     return uploadedFile;
   } catch (error) {
@@ -171,6 +328,75 @@ export async function uploadFile(file: File) {
   }
 }
 
+// ============================== UPLOAD POST MEDIA
+// Uploads files in order, downsizing images first. If any upload fails or is
+// canceled, the ones already stored are removed so a post never references a
+// partial set.
+async function uploadPostMedia(
+  files: IMediaFile[],
+  { signal, onProgress, onProcessed }: PostUploadOptions = {}
+): Promise<IPostMedia[]> {
+  if (files.length === 0) throw Error("A post needs at least one media item");
+
+  const media: IPostMedia[] = [];
+  const uploadedIds: string[] = [];
+
+  const upload = async (
+    file: File,
+    getUrl: (fileId: string) => URL | undefined,
+    reportProgress?: (progress: number) => void
+  ) => {
+    const uploadedFile = await uploadFile(file, { signal, onProgress: reportProgress });
+    throwIfAborted(signal);
+    if (!uploadedFile) throw Error;
+    uploadedIds.push(uploadedFile.$id);
+
+    const fileUrl = getUrl(uploadedFile.$id);
+    if (!fileUrl) throw Error;
+
+    return { id: uploadedFile.$id, url: fileUrl.href };
+  };
+
+  try {
+    for (const [index, file] of files.entries()) {
+      const reportProgress = (progress: number) => onProgress?.(index, progress);
+
+      if (isVideoFile(file)) {
+        // The poster is tiny next to the video, so the video alone drives
+        // the progress bar.
+        const video = await upload(file, getFileView, (progress) =>
+          reportProgress(Math.min(progress, 0.99))
+        );
+        const posterFrame = await captureVideoPoster(file);
+        const { file: poster } = await processImage(posterFrame, POST_IMAGE_OPTIONS);
+        const posterMedia = await upload(poster, getFilePreview);
+        reportProgress(1);
+
+        media.push({
+          ...video,
+          type: "video",
+          posterId: posterMedia.id,
+          posterUrl: posterMedia.url,
+        });
+      } else {
+        const image = await processImage(file, POST_IMAGE_OPTIONS);
+        onProcessed?.(index, image);
+        media.push({
+          ...(await upload(image.file, getFilePreview, reportProgress)),
+          type: "image",
+          crop: file.crop,
+          filter: file.filter,
+        });
+      }
+    }
+  } catch (error) {
+    await deleteFiles(uploadedIds);
+    throw error;
+  }
+
+  return media;
+}
+
 // ============================== GET FILE URL
 export function getFilePreview(fileId: string) {
   try {
@@ -191,6 +417,20 @@ export function getFilePreview(fileId: string) {
   }
 }
 
+// ============================== GET FILE VIEW URL
+// Previews are image-only; videos are served as stored.
+export function getFileView(fileId: string) {
+  try {
+    const fileUrl = storage.getFileView(appwriteConfig.storageId, fileId);
+
+    if (!fileUrl) throw Error;
+
+    return fileUrl;
+  } catch (error) {
+    console.log(error);
+  }
+}
+
 // ============================== DELETE FILE
 export async function deleteFile(fileId: string) {
   try {
@@ -202,9 +442,14 @@ export async function deleteFile(fileId: string) {
   }
 }
 
+// ============================== DELETE FILES
+async function deleteFiles(fileIds: string[]) {
+  await Promise.allSettled(fileIds.map((fileId) => deleteFile(fileId)));
+}
+
 // ============================== DELETE POST
-export async function deletePost(postId?: string, imageId?: string) {
-  if (!postId || !imageId) return;
+export async function deletePost(postId?: string, fileIds: string[] = []) {
+  if (!postId || fileIds.length === 0) return;
 
   try {
     const statusCode = await databases.deleteDocument(
@@ -215,7 +460,7 @@ export async function deletePost(postId?: string, imageId?: string) {
 
     if (!statusCode) throw Error;
 
-    await deleteFile(imageId);
+    await deleteFiles(fileIds);
 
     return { status: "Ok" };
   } catch (error) {
@@ -226,27 +471,192 @@ export async function deletePost(postId?: string, imageId?: string) {
 
 
 // ============================== GET POSTS
-export async function searchPosts(searchTerm: string) {
+// Matches on caption or location. Relevance walks the caption matches first and
+// then the location matches, each with its own cursor; newest merges both
+// sources by creation time and pages with the id of the last post shown, which
+// Appwrite resolves to its position so posts sharing a timestamp aren't lost.
+const POST_SEARCH_PAGE_SIZE = 9;
+const MAX_EQUAL_QUERY_VALUES = 100;
+
+export type PostSearchSort = "relevance" | "newest";
+
+export type PostSearchFilters = {
+  sort?: PostSearchSort;
+  // Inclusive calendar dates, YYYY-MM-DD.
+  from?: string;
+  to?: string;
+  location?: string;
+  followingOnly?: boolean;
+};
+
+export type PostSearchCursor = {
+  source?: "caption" | "location";
+  after?: string;
+};
+
+// Mirrors Appwrite's full-text matching: any whole word of the search term,
+// with the last word also matching as a prefix.
+const matchesFullText = (text: string | undefined, searchTerm: string) => {
+  const toWords = (value: string) =>
+    value.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+  const words = toWords(text ?? "");
+  const terms = toWords(searchTerm);
+  const lastTerm = terms[terms.length - 1];
+
+  return (
+    words.some((word) => terms.includes(word)) ||
+    (!!lastTerm && words.some((word) => word.startsWith(lastTerm)))
+  );
+};
+
+export type PostSearchPage = {
+  documents: Models.Document[];
+  nextCursor: PostSearchCursor | null;
+};
+
+export async function searchPosts(
+  searchTerm: string,
+  filters: PostSearchFilters = {},
+  cursor?: PostSearchCursor
+): Promise<PostSearchPage> {
+  const { sort = "relevance", from, to, location, followingOnly = false } = filters;
+  const filterQueries: any[] = [];
+
+  if (from) filterQueries.push(Query.greaterThanEqual("$createdAt", `${from}T00:00:00.000Z`));
+  if (to) filterQueries.push(Query.lessThanEqual("$createdAt", `${to}T23:59:59.999Z`));
+  if (location?.trim()) filterQueries.push(Query.search("location", location.trim()));
+
+  try {
+    let followingIds: string[] | null = null;
+
+    if (followingOnly) {
+      const viewer = await getCurrentUser();
+      followingIds = viewer ? await getFollowingIds(viewer.$id) : [];
+
+      if (followingIds.length === 0) return { documents: [], nextCursor: null };
+
+      // Larger graphs are filtered after the query instead.
+      if (followingIds.length <= MAX_EQUAL_QUERY_VALUES) {
+        filterQueries.push(Query.equal("creator", followingIds));
+      }
+    }
+
+    const searchSource = (attribute: "caption" | "location", extraQueries: any[]) =>
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.postCollectionId,
+        [
+          Query.search(attribute, searchTerm),
+          ...filterQueries,
+          ...extraQueries,
+          Query.limit(POST_SEARCH_PAGE_SIZE),
+        ]
+      );
+
+    let documents: Models.Document[];
+    let nextCursor: PostSearchCursor | null;
+
+    if (sort === "newest") {
+      const extraQueries: any[] = [Query.orderDesc("$createdAt")];
+      if (cursor?.after) extraQueries.push(Query.cursorAfter(cursor.after));
+
+      const [byCaption, byLocation] = await Promise.all([
+        searchSource("caption", extraQueries),
+        searchSource("location", extraQueries),
+      ]);
+
+      documents = [...byCaption.documents, ...byLocation.documents]
+        .filter(
+          (post, index, all) => all.findIndex((other) => other.$id === post.$id) === index
+        )
+        // Ties fall back to the id, which follows creation order like Appwrite's own.
+        .sort(
+          (a, b) => b.$createdAt.localeCompare(a.$createdAt) || b.$id.localeCompare(a.$id)
+        )
+        .slice(0, POST_SEARCH_PAGE_SIZE);
+
+      nextCursor =
+        documents.length === POST_SEARCH_PAGE_SIZE
+          ? { after: documents[documents.length - 1].$id }
+          : null;
+    } else {
+      const source = cursor?.source ?? "caption";
+      const page = await searchSource(
+        source,
+        cursor?.after ? [Query.cursorAfter(cursor.after)] : []
+      );
+
+      // Posts whose caption also matches were already listed with the captions.
+      documents =
+        source === "location"
+          ? page.documents.filter((post) => !matchesFullText(post.caption, searchTerm))
+          : page.documents;
+
+      if (page.documents.length === POST_SEARCH_PAGE_SIZE) {
+        nextCursor = { source, after: page.documents[page.documents.length - 1].$id };
+      } else {
+        nextCursor = source === "caption" ? { source: "location" } : null;
+      }
+    }
+
+    const isVisible = await getPostVisibilityFilter({ hideMuted: false });
+
+    return {
+      documents: documents.filter(
+        (post) =>
+          isVisible(post) && (!followingIds || followingIds.includes(post.creator?.$id))
+      ),
+      nextCursor,
+    };
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+// The cursor comes from the unfiltered page, so a page whose posts are all
+// hidden doesn't end the scroll and hidden posts aren't fetched twice.
+export async function getInfinitePosts({ pageParam }: { pageParam: number }) {
+  const queries: any[] = [Query.orderDesc("$updatedAt"), Query.limit(9)];
+
+  if (pageParam) {
+    queries.push(Query.cursorAfter(pageParam.toString()));
+  }
+
   try {
     const posts = await databases.listDocuments(
       appwriteConfig.databaseId,
       appwriteConfig.postCollectionId,
-      [Query.search("caption", searchTerm)]
+      queries
     );
 
     if (!posts) throw Error;
 
-    return posts;
+    const isVisible = await getPostVisibilityFilter();
+
+    return {
+      ...posts,
+      documents: posts.documents.filter(isVisible),
+      nextCursor:
+        posts.documents.length === 9 ? posts.documents[posts.documents.length - 1].$id : null,
+    };
   } catch (error) {
     console.log(error);
   }
 }
 
-export async function getInfinitePosts({ pageParam }: { pageParam: number }) {
-  const queries: any[] = [Query.orderDesc("$updatedAt"), Query.limit(9)];
+// ============================== GET POSTS BY TAG
+// Tags are stored normalized, so an exact element match on the array finds
+// every post carrying the tag and nothing else. Paged like getInfinitePosts.
+export async function getPostsByTag(tag: string, pageParam?: string) {
+  const queries: any[] = [
+    Query.equal("tags", [normalizeTag(tag)]),
+    Query.orderDesc("$createdAt"),
+    Query.limit(9),
+  ];
 
   if (pageParam) {
-    queries.push(Query.cursorAfter(pageParam.toString()));
+    queries.push(Query.cursorAfter(pageParam));
   }
 
   try {
@@ -258,9 +668,105 @@ export async function getInfinitePosts({ pageParam }: { pageParam: number }) {
 
     if (!posts) throw Error;
 
-    return posts;
+    const isVisible = await getPostVisibilityFilter({ hideMuted: false });
+    const documents = posts.documents.filter(isVisible);
+
+    // `total` is counted before filtering, so pages report what they hid.
+    return {
+      ...posts,
+      documents,
+      hiddenCount: posts.documents.length - documents.length,
+      nextCursor:
+        posts.documents.length === 9 ? posts.documents[posts.documents.length - 1].$id : null,
+    };
+  } catch (error) {
+    console.log(error);
+  }
+}
+
+// ============================== SEARCH TAGS
+// Tags aren't a collection of their own, so matching tags are collected from
+// the most recent posts carrying them. Prefix matches rank above the rest.
+const TAG_SEARCH_POOL_SIZE = 100;
+
+export type TagSearchResult = {
+  tag: string;
+  count: number;
+};
+
+export async function searchTags(
+  searchTerm: string,
+  limit: number = 10
+): Promise<TagSearchResult[]> {
+  const term = normalizeTag(searchTerm);
+  if (!term) return [];
+
+  try {
+    const posts = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.postCollectionId,
+      [
+        Query.search("tags", term),
+        Query.orderDesc("$createdAt"),
+        Query.limit(TAG_SEARCH_POOL_SIZE),
+        Query.select(["tags"]),
+      ]
+    );
+
+    const counts: Record<string, number> = {};
+    posts.documents.forEach((post) =>
+      new Set<string>((post.tags ?? []).map(normalizeTag)).forEach((tag) => {
+        if (tag.includes(term)) counts[tag] = (counts[tag] ?? 0) + 1;
+      })
+    );
+
+    return Object.entries(counts)
+      .map(([tag, count]) => ({ tag, count }))
+      .sort(
+        (a, b) =>
+          Number(b.tag.startsWith(term)) - Number(a.tag.startsWith(term)) ||
+          b.count - a.count
+      )
+      .slice(0, limit);
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+// ============================== GET TRENDING TAGS
+const TRENDING_TAGS_WINDOW_DAYS = 7;
+const TRENDING_TAGS_POOL_SIZE = 100;
+
+export async function getTrendingTags(limit: number = 8): Promise<TagSearchResult[]> {
+  const since = new Date(Date.now() - TRENDING_TAGS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  try {
+    const posts = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.postCollectionId,
+      [
+        Query.greaterThan("$createdAt", since.toISOString()),
+        Query.orderDesc("$createdAt"),
+        Query.limit(TRENDING_TAGS_POOL_SIZE),
+        Query.select(["tags"]),
+      ]
+    );
+
+    const counts: Record<string, number> = {};
+    posts.documents.forEach((post) =>
+      normalizeTags((post.tags ?? []).join(",")).forEach((tag) => {
+        counts[tag] = (counts[tag] ?? 0) + 1;
+      })
+    );
+
+    return Object.entries(counts)
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, limit);
   } catch (error) {
     console.log(error);
+    throw error;
   }
 }
 
@@ -284,57 +790,63 @@ export async function getPostById(postId?: string) {
 }
 
 // ============================== UPDATE POST
-export async function updatePost(post: IUpdatePost) {
-  const hasFileToUpdate = post.file.length > 0;
+export async function updatePost(post: IUpdatePost, upload: PostUploadOptions = {}) {
+  const newFiles = post.media.filter((item): item is IMediaFile => item instanceof File);
+  let uploadedMedia: IPostMedia[] = [];
+  let updatedPost: Models.Document | undefined;
 
   try {
-    let image = {
-      imageUrl: post.imageUrl,
-      imageId: post.imageId,
-    };
-
-    if (hasFileToUpdate) {
-      const uploadedFile = await uploadFile(post.file[0]);
-      if (!uploadedFile) throw Error;
-
-      const fileUrl = getFilePreview(uploadedFile.$id);
-      if (!fileUrl) {
-        await deleteFile(uploadedFile.$id);
-        throw Error;
-      }
-
-      image = { ...image, imageUrl: fileUrl, imageId: uploadedFile.$id };
+    if (newFiles.length > 0) {
+      uploadedMedia = await uploadPostMedia(newFiles, upload);
     }
 
-    const tags = post.tags?.replace(/ /g, "").split(",") || [];
+    let uploadIndex = 0;
+    const media = post.media.map((item) =>
+      item instanceof File ? uploadedMedia[uploadIndex++] : item
+    );
+    if (media.length === 0) throw Error("A post needs at least one media item");
+
+    const tags = normalizeTags(post.tags);
+    const previousPost = await getPostById(post.postId);
+    const previousMentions = parseMentions(previousPost?.mentions);
+    const mentions = await resolveMentions(post.caption);
+    throwIfAborted(upload.signal);
+    upload.onUploadsDone?.();
 
-    const updatedPost = await databases.updateDocument(
+    updatedPost = await withRetry(() => databases.updateDocument(
       appwriteConfig.databaseId,
       appwriteConfig.postCollectionId,
       post.postId,
       {
         caption: post.caption,
-        imageUrl: image.imageUrl,
-        imageId: image.imageId,
+        imageUrl: getMediaThumbnail(media[0]),
+        imageId: media[0].posterId ?? media[0].id,
+        media: serializeMedia(media),
         location: post.location,
         tags: tags,
+        mentions: serializeMentions(mentions),
       }
-    );
-
-    if (!updatedPost) {
-      if (hasFileToUpdate) {
-        await deleteFile(image.imageId);
-      }
+    ));
 
-      throw Error;
-    }
+    if (!updatedPost) throw Error;
 
-    if (hasFileToUpdate) {
-      await deleteFile(post.imageId);
-    }
+    const removedMedia = getPostMedia(previousPost).filter(
+      (previous) => !media.some((item) => item.id === previous.id)
+    );
+    await deleteFiles(getMediaFileIds(removedMedia));
+
+    await createMentionNotifications({
+      actorId: updatedPost.creator.$id,
+      mentions: mentions.filter(
+        (mention) => !previousMentions.some((previous) => previous.userId === mention.userId)
+      ),
+      postId: updatedPost.$id,
+    });
 
     return updatedPost;
   } catch (error) {
+    // New uploads are only orphaned if the post never started pointing at them.
+    if (!updatedPost) await deleteFiles(getMediaFileIds(uploadedMedia));
     console.log(error);
   }
 }
@@ -413,14 +925,16 @@ export async function getUserPosts(userId?: string) {
 
     if (!post) throw Error;
 
-    return post;
+    const isVisible = await getPostVisibilityFilter({ hideMuted: false });
+
+    return { ...post, documents: post.documents.filter(isVisible) };
   } catch (error) {
     console.log(error);
   }
 }
 
 // ============================== GET POPULAR POSTS (BY HIGHEST LIKE COUNT)
-export async function getRecentPosts() {
+export async function getRecentPosts(followedTags: string[] = []) {
   try {
     const posts = await databases.listDocuments(
       appwriteConfig.databaseId,
@@ -430,9 +944,196 @@ export async function getRecentPosts() {
 
     if (!posts) throw Error;
 
-    return posts;
+    const isVisible = await getPostVisibilityFilter();
+
+    if (followedTags.length === 0) {
+      return { ...posts, documents: posts.documents.filter(isVisible) };
+    }
+
+    const taggedPosts = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.postCollectionId,
+      [
+        Query.equal(
+          "tags",
+          followedTags.map(normalizeTag).slice(0, MAX_EQUAL_QUERY_VALUES)
+        ),
+        Query.orderDesc("$createdAt"),
+        Query.limit(20),
+      ]
+    );
+
+    const documents = [...posts.documents, ...taggedPosts.documents]
+      .filter(
+        (post, index, all) => all.findIndex((other) => other.$id === post.$id) === index
+      )
+      .filter(isVisible)
+      .sort((a, b) => b.$createdAt.localeCompare(a.$createdAt));
+
+    return { ...posts, documents };
+  } catch (error) {
+    console.log(error);
+  }
+}
+
+// ============================== GET FOLLOWING POSTS
+// Appwrite caps the number of values in a single `Query.equal`, so followed
+// creators are queried in chunks and the results merged newest first. The
+// cursor is the id of the last post on the previous page; Appwrite resolves it
+// to that post's position, so posts sharing its timestamp aren't skipped.
+const FOLLOWING_QUERY_CHUNK_SIZE = 100;
+const FOLLOWING_FEED_PAGE_SIZE = 10;
+
+export async function getFollowingPosts(followingIds: string[], cursor?: string) {
+  if (followingIds.length === 0) {
+    return { documents: [] as Models.Document[], nextCursor: null };
+  }
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < followingIds.length; i += FOLLOWING_QUERY_CHUNK_SIZE) {
+    chunks.push(followingIds.slice(i, i + FOLLOWING_QUERY_CHUNK_SIZE));
+  }
+
+  try {
+    const results = await Promise.all(
+      chunks.map((chunk) => {
+        const queries: any[] = [
+          Query.equal("creator", chunk),
+          Query.orderDesc("$createdAt"),
+          Query.limit(FOLLOWING_FEED_PAGE_SIZE),
+        ];
+
+        if (cursor) {
+          queries.push(Query.cursorAfter(cursor));
+        }
+
+        return databases.listDocuments(
+          appwriteConfig.databaseId,
+          appwriteConfig.postCollectionId,
+          queries
+        );
+      })
+    );
+
+    const documents = results
+      .flatMap((result) => result.documents)
+      // Ties fall back to the id, which follows creation order like Appwrite's own.
+      .sort(
+        (a, b) => b.$createdAt.localeCompare(a.$createdAt) || b.$id.localeCompare(a.$id)
+      )
+      .slice(0, FOLLOWING_FEED_PAGE_SIZE);
+
+    const nextCursor =
+      documents.length === FOLLOWING_FEED_PAGE_SIZE
+        ? documents[documents.length - 1].$id
+        : null;
+
+    const isVisible = await getPostVisibilityFilter();
+
+    return { documents: documents.filter(isVisible), nextCursor };
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+// ============================== POST VISIBILITY
+// Posts by private accounts are only shown to the account itself and to its
+// approved followers.
+export function canViewCreatorPosts(
+  creator: Models.Document | undefined,
+  viewerId: string | undefined,
+  followingIds: string[]
+) {
+  if (!creator || !creator.isPrivate) return true;
+  if (!viewerId) return false;
+
+  return creator.$id === viewerId || followingIds.includes(creator.$id);
+}
+
+// Blocked accounts are hidden everywhere; muted accounts only from feeds.
+async function getPostVisibilityFilter({ hideMuted = true } = {}) {
+  const viewer = await getCurrentUser();
+
+  if (!viewer) {
+    return (post: Models.Document) => canViewCreatorPosts(post.creator, undefined, []);
+  }
+
+  const [followingIds, hidden] = await Promise.all([
+    getFollowingIds(viewer.$id),
+    getHiddenUserIds(viewer.$id),
+  ]);
+  const hiddenIds = hideMuted ? [...hidden.blocked, ...hidden.muted] : hidden.blocked;
+
+  return (post: Models.Document) =>
+    !hiddenIds.includes(post.creator?.$id) &&
+    canViewCreatorPosts(post.creator, viewer.$id, followingIds);
+}
+
+// ============================== GET RANKED FEED
+// The first page ranks a pool of recent posts once; later pages are served from
+// the remainder carried in `pageParam`, so the order stays stable while
+// scrolling.
+const RANKED_FEED_POOL_SIZE = 100;
+const RANKED_FEED_POOL_DAYS = 7;
+const RANKED_FEED_PAGE_SIZE = 10;
+
+export type RankedFeedPage = {
+  documents: Models.Document[];
+  remaining: Models.Document[];
+};
+
+export async function getRankedFeed(
+  viewer: Models.Document,
+  pageParam?: Models.Document[]
+): Promise<RankedFeedPage> {
+  if (pageParam) {
+    return {
+      documents: pageParam.slice(0, RANKED_FEED_PAGE_SIZE),
+      remaining: pageParam.slice(RANKED_FEED_PAGE_SIZE),
+    };
+  }
+
+  try {
+    const now = Date.now();
+    const poolSince = new Date(now - RANKED_FEED_POOL_DAYS * 24 * 60 * 60 * 1000);
+
+    const candidates = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.postCollectionId,
+      [
+        Query.greaterThan("$createdAt", poolSince.toISOString()),
+        Query.orderDesc("$createdAt"),
+        Query.limit(RANKED_FEED_POOL_SIZE),
+      ]
+    );
+
+    const likedPosts: Models.Document[] = viewer.liked ?? [];
+    const [followingIds, hidden] = await Promise.all([
+      getFollowingIds(viewer.$id),
+      getHiddenUserIds(viewer.$id),
+    ]);
+    const hiddenIds = [...hidden.blocked, ...hidden.muted];
+    const visible = candidates.documents.filter(
+      (post) =>
+        !hiddenIds.includes(post.creator?.$id) &&
+        canViewCreatorPosts(post.creator, viewer.$id, followingIds)
+    );
+    const ranked = rankPosts(visible, {
+      now,
+      viewerId: viewer.$id,
+      followingIds,
+      interactedCreatorIds: getInteractedCreatorIds(likedPosts),
+      tagAffinity: buildTagAffinity(likedPosts),
+    });
+
+    return {
+      documents: ranked.slice(0, RANKED_FEED_PAGE_SIZE),
+      remaining: ranked.slice(RANKED_FEED_PAGE_SIZE),
+    };
   } catch (error) {
     console.log(error);
+    throw error;
   }
 }
 
@@ -495,7 +1196,8 @@ export async function updateUser(user: IUpdateUser) {
     };
 
     if (hasFileToUpdate) {
-      const uploadedFile = await uploadFile(user.file[0]);
+      const { file: avatar } = await processImage(user.file[0], AVATAR_IMAGE_OPTIONS);
+      const uploadedFile = await uploadFile(avatar);
       if (!uploadedFile) throw Error;
 
       const fileUrl = getFilePreview(uploadedFile.$id);
@@ -516,6 +1218,7 @@ export async function updateUser(user: IUpdateUser) {
         bio: user.bio,
         imageUrl: image.imageUrl,
         imageId: image.imageId,
+        isPrivate: user.isPrivate,
       }
     );
 
@@ -536,170 +1239,1310 @@ export async function updateUser(user: IUpdateUser) {
   }
 }
 
-// ===========================================================
-// FOLLOW
-// ===========================================================
+// ============================== SEARCH USERS
+// Appwrite can't OR two attributes in one query, so the username prefix match
+// (on the lowercased `usernameLower`) and the name full-text search run as two
+// sources. Relevance walks the username matches first and then the name
+// matches, each with its own cursor. The other sorts merge both sources in the
+// requested order and keep a cursor per source, advanced only past what a page
+// actually used.
+const USER_SEARCH_PAGE_SIZE = 12;
+
+export type UserSearchSort = "relevance" | "followers" | "newest";
+
+type UserSearchSource = "username" | "name";
+
+export type UserSearchCursor = {
+  source?: UserSearchSource;
+  after?: string;
+  // Merged sorts only; null once that source is exhausted.
+  username?: string | null;
+  name?: string | null;
+};
+
+export type UserSearchPage = {
+  documents: Models.Document[];
+  nextCursor: UserSearchCursor | null;
+};
+
+export async function searchUsers(
+  searchTerm: string,
+  sort: UserSearchSort = "relevance",
+  cursor?: UserSearchCursor,
+  excludedIds: string[] = []
+): Promise<UserSearchPage> {
+  const term = searchTerm.trim();
+  const handle = term.replace(/^@/, "").toLowerCase();
+
+  // A bare "@" would otherwise be a startsWith("") match on every user.
+  if (!handle) return { documents: [], nextCursor: null };
+
+  const order: Record<UserSearchSort, Record<UserSearchSource, any[]>> = {
+    relevance: { username: [Query.orderAsc("usernameLower")], name: [] },
+    newest: {
+      username: [Query.orderDesc("$createdAt")],
+      name: [Query.orderDesc("$createdAt")],
+    },
+    followers: {
+      username: [Query.orderDesc("followersCount")],
+      name: [Query.orderDesc("followersCount")],
+    },
+  };
+
+  const searchSource = (source: UserSearchSource, after?: string) =>
+    databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      [
+        source === "username"
+          ? Query.startsWith("usernameLower", handle)
+          : Query.search("name", term),
+        ...order[sort][source],
+        ...(after ? [Query.cursorAfter(after)] : []),
+        Query.limit(USER_SEARCH_PAGE_SIZE),
+      ]
+    );
 
-// ============================== FOLLOW USER
-export async function followUser(targetUserId: string) {
-  try {
-    const currentUser = await getCurrentUser();
+  // Users whose username also matches are listed with the username matches.
+  const isListedByUsername = (user: Models.Document) =>
+    (user.usernameLower ?? "").startsWith(handle);
 
-    if (!currentUser || !currentUser.$id) {
-      throw new Error('Invalid or missing current user data');
+  try {
+    let documents: Models.Document[];
+    let nextCursor: UserSearchCursor | null;
+
+    if (sort === "relevance") {
+      const source = cursor?.source ?? "username";
+      const page = await searchSource(source, cursor?.after);
+
+      documents = (
+        source === "name"
+          ? page.documents.filter((user) => !isListedByUsername(user))
+          : page.documents
+      ).sort((a, b) => scoreUserMatch(b, term) - scoreUserMatch(a, term));
+
+      if (page.documents.length === USER_SEARCH_PAGE_SIZE) {
+        nextCursor = { source, after: page.documents[page.documents.length - 1].$id };
+      } else {
+        nextCursor = source === "username" ? { source: "name" } : null;
+      }
+    } else {
+      const [byUsername, byName] = await Promise.all([
+        cursor?.username === null ? null : searchSource("username", cursor?.username),
+        cursor?.name === null ? null : searchSource("name", cursor?.name),
+      ]);
+
+      const compare = (a: Models.Document, b: Models.Document) =>
+        sort === "newest"
+          ? b.$createdAt.localeCompare(a.$createdAt)
+          : (b.followersCount ?? 0) - (a.followersCount ?? 0);
+
+      const taken = [
+        ...(byUsername?.documents ?? []).map((user) => ({ user, source: "username" as const })),
+        ...(byName?.documents ?? []).map((user) => ({ user, source: "name" as const })),
+      ]
+        .sort((a, b) => compare(a.user, b.user))
+        .slice(0, USER_SEARCH_PAGE_SIZE);
+
+      const advance = (
+        source: UserSearchSource,
+        page: Models.DocumentList<Models.Document> | null
+      ) => {
+        if (!page) return null;
+
+        const used = taken.filter((entry) => entry.source === source);
+        const isExhausted =
+          page.documents.length < USER_SEARCH_PAGE_SIZE &&
+          used.length === page.documents.length;
+
+        if (isExhausted) return null;
+        return used.length > 0 ? used[used.length - 1].user.$id : cursor?.[source];
+      };
+
+      documents = taken
+        .filter(({ user, source }) => source === "username" || !isListedByUsername(user))
+        .map(({ user }) => user);
+
+      const username = advance("username", byUsername);
+      const name = advance("name", byName);
+      nextCursor = username === null && name === null ? null : { username, name };
     }
 
-    if (!Array.isArray(currentUser.followingId)) {
-      currentUser.followingId = [];
-    }
+    return {
+      documents: documents.filter((user) => !excludedIds.includes(user.$id)),
+      nextCursor,
+    };
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
 
-    if (!currentUser.followingId.includes(targetUserId)) {
-      currentUser.followingId.push(targetUserId);
+// ============================== BACKFILL USERNAME LOWER
+// Accounts created before `usernameLower` existed get it on their next sign-in
+// so people search can find them.
+export async function backfillUsernameLower(user: Models.Document) {
+  if (!user.username || user.usernameLower === user.username.toLowerCase()) return;
 
-      const updatedCurrentUser = await databases.updateDocument(
-        appwriteConfig.databaseId,
-        appwriteConfig.userCollectionId,
-        currentUser.$id,
-        { followingId: currentUser.followingId }
-      );
+  try {
+    await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      user.$id,
+      { usernameLower: user.username.toLowerCase() }
+    );
+  } catch (error) {
+    console.log(error);
+  }
+}
 
-      if (!updatedCurrentUser) {
-        throw new Error('Failed to update current user data while following user');
-      }
+// ============================== BACKFILL NORMALIZED TAGS
+// Tag pages match tags exactly, so posts saved before tags were normalized
+// ("Travel", " art") are rewritten on their author's next sign-in.
+export async function backfillNormalizedTags(user: Models.Document) {
+  try {
+    let cursor: string | undefined;
 
-      const targetUser = await databases.getDocument(
+    do {
+      const posts = await databases.listDocuments(
         appwriteConfig.databaseId,
-        appwriteConfig.userCollectionId,
-        targetUserId
+        appwriteConfig.postCollectionId,
+        [
+          Query.equal("creator", user.$id),
+          Query.orderDesc("$createdAt"),
+          Query.limit(100),
+          ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]
       );
 
-      if (!targetUser) {
-        throw new Error(`Target user with ID ${targetUserId} not found`);
-      }
+      const outdated = posts.documents.filter(
+        (post) => !isSameList(post.tags ?? [], normalizeTags((post.tags ?? []).join(",")))
+      );
 
-      if (!Array.isArray(targetUser.followerId)) {
-        targetUser.followerId = [];
+      await Promise.all(
+        outdated.map((post) =>
+          databases.updateDocument(
+            appwriteConfig.databaseId,
+            appwriteConfig.postCollectionId,
+            post.$id,
+            { tags: normalizeTags(post.tags.join(",")) }
+          )
+        )
+      );
+
+      cursor =
+        posts.documents.length === 100
+          ? posts.documents[posts.documents.length - 1].$id
+          : undefined;
+    } while (cursor);
+  } catch (error) {
+    console.log(error);
+  }
+}
+
+// ============================== UPDATE FOLLOWED TAGS
+export async function updateFollowedTags(userId: string, followedTags: string[]) {
+  try {
+    const updatedUser = await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      userId,
+      {
+        followedTags,
       }
+    );
+
+    if (!updatedUser) throw Error;
+
+    return updatedUser;
+  } catch (error) {
+    console.log(error);
+  }
+}
+
+// ============================== SEARCH HISTORY
+// Recent search terms and visited profile ids are kept newest first on the
+// user document, so they follow the user across devices.
+const SEARCH_HISTORY_LIMIT = 10;
+
+export type SearchHistory = {
+  searches: string[];
+  profiles: Models.Document[];
+};
+
+export async function getSearchHistory(userId: string): Promise<SearchHistory> {
+  try {
+    const user = await getUserById(userId);
+
+    return {
+      searches: user.recentSearches ?? [],
+      profiles: await getUsersByIds(user.recentProfiles ?? []),
+    };
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+type SearchHistoryLists = { recentSearches: string[]; recentProfiles: string[] };
+
+// Appwrite has no atomic array update, so history changes are a read followed
+// by a write. Changes from this client are queued so a search and a profile
+// visit recorded together can't overwrite each other, and a change that leaves
+// the lists as they were (e.g. revisiting the latest profile) skips the write.
+let searchHistoryQueue: Promise<unknown> = Promise.resolve();
 
-      targetUser.followerId.push(currentUser.$id);
+const isSameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
 
-      const updatedTargetUser = await databases.updateDocument(
+function updateSearchHistory(
+  userId: string,
+  update: (history: SearchHistoryLists) => SearchHistoryLists
+) {
+  const run = searchHistoryQueue.then(() => applySearchHistoryUpdate(userId, update));
+  searchHistoryQueue = run.catch(() => {});
+
+  return run;
+}
+
+async function applySearchHistoryUpdate(
+  userId: string,
+  update: (history: SearchHistoryLists) => SearchHistoryLists
+) {
+  try {
+    const user = await getUserById(userId);
+    const current: SearchHistoryLists = {
+      recentSearches: user.recentSearches ?? [],
+      recentProfiles: user.recentProfiles ?? [],
+    };
+    const next = update(current);
+    const recentSearches = next.recentSearches.slice(0, SEARCH_HISTORY_LIMIT);
+    const recentProfiles = next.recentProfiles.slice(0, SEARCH_HISTORY_LIMIT);
+
+    if (
+      isSameList(recentSearches, current.recentSearches) &&
+      isSameList(recentProfiles, current.recentProfiles)
+    ) {
+      return user;
+    }
+
+    const updatedUser = await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      userId,
+      { recentSearches, recentProfiles }
+    );
+
+    if (!updatedUser) throw Error;
+
+    return updatedUser;
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+export async function recordRecentSearch(userId: string, searchTerm: string) {
+  const term = searchTerm.trim();
+  if (!term) return;
+
+  return updateSearchHistory(userId, ({ recentSearches, recentProfiles }) => ({
+    recentSearches: [
+      term,
+      ...recentSearches.filter((search) => search.toLowerCase() !== term.toLowerCase()),
+    ],
+    recentProfiles,
+  }));
+}
+
+export async function recordProfileVisit(userId: string, profileId: string) {
+  if (userId === profileId) return;
+
+  return updateSearchHistory(userId, ({ recentSearches, recentProfiles }) => ({
+    recentSearches,
+    recentProfiles: [profileId, ...recentProfiles.filter((id) => id !== profileId)],
+  }));
+}
+
+export async function removeSearchHistoryItem(
+  userId: string,
+  item: { searchTerm?: string; profileId?: string }
+) {
+  return updateSearchHistory(userId, ({ recentSearches, recentProfiles }) => ({
+    recentSearches: recentSearches.filter((search) => search !== item.searchTerm),
+    recentProfiles: recentProfiles.filter((id) => id !== item.profileId),
+  }));
+}
+
+export async function clearSearchHistory(userId: string) {
+  return updateSearchHistory(userId, () => ({ recentSearches: [], recentProfiles: [] }));
+}
+
+// ============================== GET SUGGESTED USERS
+// Candidates come from friends-of-friends (accounts followed by people the
+// viewer follows) and recently active creators, topped up with the newest
+// users for viewers with an empty graph. The graph walk reads the newest
+// follow records of up to SUGGESTION_GRAPH_SAMPLE_SIZE followed accounts,
+// capped at SUGGESTION_GRAPH_RECORD_LIMIT records.
+const SUGGESTION_CANDIDATE_LIMIT = 30;
+const SUGGESTION_GRAPH_SAMPLE_SIZE = 100;
+const SUGGESTION_GRAPH_RECORD_LIMIT = 1000;
+const DISMISSED_SUGGESTIONS_LIMIT = 200;
+
+export type SuggestedUser = {
+  user: Models.Document;
+  mutualCount: number;
+};
+
+async function getSecondDegreeFollows(followingIds: string[]) {
+  const follows: Models.Document[] = [];
+  let cursor: string | undefined;
+
+  while (follows.length < SUGGESTION_GRAPH_RECORD_LIMIT) {
+    const queries: any[] = [
+      Query.equal("follower", followingIds),
+      Query.orderDesc("$createdAt"),
+      Query.limit(100),
+    ];
+    if (cursor) {
+      queries.push(Query.cursorAfter(cursor));
+    }
+
+    const page = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      queries
+    );
+
+    follows.push(...page.documents);
+
+    if (page.documents.length < 100) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return follows;
+}
+
+export async function getSuggestedUsers(
+  viewer: Models.Document,
+  limit: number = 10
+): Promise<SuggestedUser[]> {
+  try {
+    // The viewer is re-read so a dismissal made a moment ago is excluded even
+    // if the cached copy passed in predates it.
+    const [followingIds, hidden, freshViewer] = await Promise.all([
+      getFollowingIds(viewer.$id),
+      getHiddenUserIds(viewer.$id),
+      getUserById(viewer.$id),
+    ]);
+
+    const excluded = new Set<string>([
+      viewer.$id,
+      ...followingIds,
+      ...hidden.blocked,
+      ...hidden.muted,
+      ...(freshViewer.dismissedSuggestions ?? []),
+    ]);
+
+    const activitySince = new Date(
+      Date.now() - SUGGESTION_ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    );
+    const sampledFollowingIds = followingIds.slice(0, SUGGESTION_GRAPH_SAMPLE_SIZE);
+
+    const [secondDegree, recentPosts, newestUsers] = await Promise.all([
+      sampledFollowingIds.length > 0 ? getSecondDegreeFollows(sampledFollowingIds) : [],
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.postCollectionId,
+        [
+          Query.greaterThan("$createdAt", activitySince.toISOString()),
+          Query.orderDesc("$createdAt"),
+          Query.limit(100),
+        ]
+      ),
+      databases.listDocuments(
         appwriteConfig.databaseId,
         appwriteConfig.userCollectionId,
-        targetUserId,
-        { followerId: targetUser.followerId }
+        [Query.orderDesc("$createdAt"), Query.limit(limit * 2)]
+      ),
+    ]);
+
+    const mutualCounts: Record<string, number> = {};
+    secondDegree.forEach((follow) => {
+      if (excluded.has(follow.followee)) return;
+      mutualCounts[follow.followee] = (mutualCounts[follow.followee] ?? 0) + 1;
+    });
+
+    const recentPostCounts: Record<string, number> = {};
+    recentPosts.documents.forEach((post) => {
+      const creatorId = post.creator?.$id;
+      if (!creatorId || excluded.has(creatorId)) return;
+      recentPostCounts[creatorId] = (recentPostCounts[creatorId] ?? 0) + 1;
+    });
+
+    const candidateIds = Array.from(
+      new Set([
+        ...Object.keys(mutualCounts),
+        ...Object.keys(recentPostCounts),
+        ...newestUsers.documents
+          .map((user) => user.$id)
+          .filter((id) => !excluded.has(id)),
+      ])
+    )
+      .sort(
+        (a, b) =>
+          (mutualCounts[b] ?? 0) - (mutualCounts[a] ?? 0) ||
+          (recentPostCounts[b] ?? 0) - (recentPostCounts[a] ?? 0)
+      )
+      .slice(0, SUGGESTION_CANDIDATE_LIMIT);
+
+    const candidates = await getUsersByIds(candidateIds);
+
+    return candidates
+      .map((user) => ({
+        user,
+        score: scoreSuggestion({
+          mutualCount: mutualCounts[user.$id] ?? 0,
+          followerCount: user.followersCount ?? 0,
+          recentPostCount: recentPostCounts[user.$id] ?? 0,
+        }),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ user }) => ({ user, mutualCount: mutualCounts[user.$id] ?? 0 }));
+  } catch (error) {
+    console.log('Error fetching suggested users:', error);
+    throw error;
+  }
+}
+
+// ============================== DISMISS SUGGESTION
+export async function dismissSuggestion(userId: string, suggestedUserId: string) {
+  try {
+    const user = await getUserById(userId);
+    const dismissedSuggestions: string[] = [
+      ...(user.dismissedSuggestions ?? []).filter((id: string) => id !== suggestedUserId),
+      suggestedUserId,
+    ].slice(-DISMISSED_SUGGESTIONS_LIMIT);
+
+    const updatedUser = await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      userId,
+      {
+        dismissedSuggestions,
+      }
+    );
+
+    if (!updatedUser) throw Error;
+
+    return updatedUser;
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+// ===========================================================
+// FOLLOW
+// ===========================================================
+
+// Follows are stored as their own records ({ follower, followee, createdAt })
+// rather than as arrays on the user documents. The record id is derived from
+// the pair, so following twice collides instead of creating a duplicate and
+// unfollowing twice is a no-op.
+
+// ============================== RELATIONSHIP RECORD ID
+async function getRelationshipId(fromUserId: string, toUserId: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${fromUserId}:${toUserId}`)
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 36);
+}
+
+// ============================== PAIR RECORD HELPERS
+async function createPairRecord(
+  collectionId: string,
+  recordId: string,
+  data: Record<string, string>
+) {
+  try {
+    return await databases.createDocument(
+      appwriteConfig.databaseId,
+      collectionId,
+      recordId,
+      { ...data, createdAt: new Date().toISOString() }
+    );
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 409) {
+      return databases.getDocument(appwriteConfig.databaseId, collectionId, recordId);
+    }
+
+    throw error;
+  }
+}
+
+async function deletePairRecord(collectionId: string, recordId: string) {
+  try {
+    await databases.deleteDocument(appwriteConfig.databaseId, collectionId, recordId);
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 404) return;
+
+    throw error;
+  }
+}
+
+async function listPairIds(
+  collectionId: string,
+  matchKey: string,
+  userId: string,
+  idKey: string
+): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+
+  while (true) {
+    const queries: any[] = [Query.equal(matchKey, userId), Query.limit(100)];
+    if (cursor) {
+      queries.push(Query.cursorAfter(cursor));
+    }
+
+    const records = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      collectionId,
+      queries
+    );
+
+    ids.push(...records.documents.map((record) => record[idKey]));
+
+    if (records.documents.length < 100) break;
+    cursor = records.documents[records.documents.length - 1].$id;
+  }
+
+  return ids;
+}
+
+async function getUsersByIds(userIds: string[]): Promise<Models.Document[]> {
+  if (userIds.length === 0) return [];
+
+  const users = await databases.listDocuments(
+    appwriteConfig.databaseId,
+    appwriteConfig.userCollectionId,
+    [Query.equal("$id", userIds), Query.limit(userIds.length)]
+  );
+
+  const usersById = new Map(users.documents.map((user) => [user.$id, user]));
+
+  return userIds
+    .map((id) => usersById.get(id))
+    .filter((user): user is Models.Document => !!user);
+}
+
+// ============================== SYNC FOLLOWERS COUNT
+// Users store `followersCount` so lists can sort and rank by it without
+// counting follow records per user. It is recounted rather than incremented,
+// so concurrent follows can't leave it behind.
+async function syncFollowersCount(userId: string) {
+  try {
+    await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      userId,
+      { followersCount: await getFollowersCount(userId) }
+    );
+  } catch (error) {
+    // The follow change itself went through; the next sync corrects the count.
+    console.log('Error syncing followers count:', error);
+  }
+}
+
+// ============================== CREATE FOLLOW
+export async function createFollow(followerId: string, followeeId: string) {
+  if (followerId === followeeId) {
+    throw new Error('Users cannot follow themselves');
+  }
+
+  const followId = await getRelationshipId(followerId, followeeId);
+
+  try {
+    const follow = await databases.createDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      followId,
+      {
+        follower: followerId,
+        followee: followeeId,
+        createdAt: new Date().toISOString(),
+      }
+    );
+
+    await syncFollowersCount(followeeId);
+
+    return follow;
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 409) {
+      return databases.getDocument(
+        appwriteConfig.databaseId,
+        appwriteConfig.followsCollectionId,
+        followId
       );
+    }
+
+    throw error;
+  }
+}
+
+// ============================== DELETE FOLLOW
+export async function deleteFollow(followerId: string, followeeId: string) {
+  const followId = await getRelationshipId(followerId, followeeId);
+
+  try {
+    await databases.deleteDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      followId
+    );
+
+    await syncFollowersCount(followeeId);
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 404) return;
+
+    throw error;
+  }
+}
+
+// ============================== FOLLOW USER
+export async function followUser(targetUserId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
+
+    if (await isBlockedBetween(currentUser.$id, targetUserId)) {
+      throw new Error('Cannot follow this user');
+    }
+
+    const targetUser = await getUserById(targetUserId);
+
+    if (targetUser.isPrivate) {
+      await createFollowRequest(currentUser.$id, targetUserId);
+      return { status: "Requested" };
+    }
+
+    await createFollow(currentUser.$id, targetUserId);
+
+    return { status: "Following" };
+  } catch (error: any) {
+    console.log('Error following user:', error.message);
+    throw error;
+  }
+}
+
+// ============================== UNFOLLOW USER
+export async function unfollowUser(userIdToUnfollow: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
+
+    // Also withdraws a pending request to a private account.
+    await Promise.all([
+      deleteFollow(currentUser.$id, userIdToUnfollow),
+      deleteFollowRequest(currentUser.$id, userIdToUnfollow),
+    ]);
 
-      if (!updatedTargetUser) {
-        throw new Error(`Failed to update target user ${targetUserId} with follower ${currentUser.$id}`);
+    return { status: "Ok" };
+  } catch (error: any) {
+    console.log('Error unfollowing user:', error.message);
+    throw error;
+  }
+}
+
+// ============================== CREATE FOLLOW REQUEST
+// Requests to follow a private account live in their own collection, keyed
+// the same way as follows, until the owner approves or declines them.
+export async function createFollowRequest(requesterId: string, targetId: string) {
+  if (requesterId === targetId) {
+    throw new Error('Users cannot follow themselves');
+  }
+
+  const requestId = await getRelationshipId(requesterId, targetId);
+
+  try {
+    return await databases.createDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.followRequestsCollectionId,
+      requestId,
+      {
+        requester: requesterId,
+        target: targetId,
+        createdAt: new Date().toISOString(),
       }
+    );
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 409) {
+      return databases.getDocument(
+        appwriteConfig.databaseId,
+        appwriteConfig.followRequestsCollectionId,
+        requestId
+      );
+    }
+
+    throw error;
+  }
+}
+
+// ============================== DELETE FOLLOW REQUEST
+export async function deleteFollowRequest(requesterId: string, targetId: string) {
+  const requestId = await getRelationshipId(requesterId, targetId);
+
+  try {
+    await databases.deleteDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.followRequestsCollectionId,
+      requestId
+    );
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 404) return;
+
+    throw error;
+  }
+}
+
+// ============================== HAS REQUESTED FOLLOW
+export async function hasRequestedFollow(targetUserId: string): Promise<boolean> {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return false;
+    }
+
+    const requests = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followRequestsCollectionId,
+      [
+        Query.equal("requester", currentUser.$id),
+        Query.equal("target", targetUserId),
+        Query.limit(1),
+      ]
+    );
+
+    return requests.total > 0;
+  } catch (error) {
+    console.error('Error checking follow request status:', error);
+    throw error;
+  }
+}
+
+// ============================== GET FOLLOW REQUESTS
+export type FollowRequestsPage = {
+  requesters: Models.Document[];
+  nextCursor: string | null;
+};
+
+const FOLLOW_REQUESTS_PAGE_SIZE = 20;
+
+export async function getFollowRequests(
+  userId: string,
+  cursor?: string
+): Promise<FollowRequestsPage> {
+  const queries: any[] = [
+    Query.equal("target", userId),
+    Query.orderDesc("$createdAt"),
+    Query.limit(FOLLOW_REQUESTS_PAGE_SIZE),
+  ];
+
+  if (cursor) {
+    queries.push(Query.cursorAfter(cursor));
+  }
+
+  try {
+    const requests = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followRequestsCollectionId,
+      queries
+    );
+
+    return {
+      requesters: await getUsersByIds(
+        requests.documents.map((request) => request.requester)
+      ),
+      nextCursor:
+        requests.documents.length === FOLLOW_REQUESTS_PAGE_SIZE
+          ? requests.documents[requests.documents.length - 1].$id
+          : null,
+    };
+  } catch (error) {
+    console.log('Error fetching follow requests:', error);
+    throw error;
+  }
+}
+
+// ============================== APPROVE / DECLINE FOLLOW REQUEST
+export async function approveFollowRequest(requesterId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
+
+    await createFollow(requesterId, currentUser.$id);
+    await deleteFollowRequest(requesterId, currentUser.$id);
+
+    return { status: "Ok" };
+  } catch (error: any) {
+    console.log('Error approving follow request:', error.message);
+    throw error;
+  }
+}
+
+export async function declineFollowRequest(requesterId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
+
+    await deleteFollowRequest(requesterId, currentUser.$id);
+
+    return { status: "Ok" };
+  } catch (error: any) {
+    console.log('Error declining follow request:', error.message);
+    throw error;
+  }
+}
+
+// ============================== GET FOLLOWINGS
+export async function isFollowingA(targetUserId: string): Promise<boolean> {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return false; 
+    }
+
+    const follows = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      [
+        Query.equal("follower", currentUser.$id),
+        Query.equal("followee", targetUserId),
+        Query.limit(1),
+      ]
+    );
+
+    return follows.total > 0;
+  } catch (error) {
+    console.error('Error checking isFollowing status:', error);
+    throw error;
+  }
+}
+
+// ============================== GET FOLLOWING IDS
+export async function getFollowingIds(userId: string): Promise<string[]> {
+  try {
+    return await listPairIds(
+      appwriteConfig.followsCollectionId,
+      "follower",
+      userId,
+      "followee"
+    );
+  } catch (error) {
+    console.log('Error fetching following ids:', error);
+    throw error;
+  }
+}
+
+// ============================== GET FOLLOWERS COUNT
+export async function getFollowersCount(userId: string): Promise<number> {
+  try {
+    const follows = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      [Query.equal("followee", userId), Query.limit(1)]
+    );
+
+    return follows.total;
+  } catch (error) {
+    console.log('Error fetching followers count:', error);
+    throw error;
+  }
+}
+
+// ============================== GET FOLLOWINGS COUNT
+export async function getFollowingsCount(userId: string): Promise<number> {
+  try {
+    const follows = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      [Query.equal("follower", userId), Query.limit(1)]
+    );
+
+    return follows.total;
+  } catch (error) {
+    console.log('Error fetching followings count:', error);
+    throw error;
+  }
+}
+
+// ============================== GET FOLLOW LIST
+export type FollowListType = "followers" | "following";
+
+export type FollowListPage = {
+  users: Models.Document[];
+  // Ids of listed users who follow the viewer back.
+  followsYou: string[];
+  nextCursor: string | null;
+};
+
+const FOLLOW_LIST_PAGE_SIZE = 20;
+
+export async function getFollowList(
+  userId: string,
+  type: FollowListType,
+  viewerId: string,
+  cursor?: string
+): Promise<FollowListPage> {
+  const [ownKey, otherKey] =
+    type === "followers" ? ["followee", "follower"] : ["follower", "followee"];
+
+  const queries: any[] = [
+    Query.equal(ownKey, userId),
+    Query.orderDesc("$createdAt"),
+    Query.limit(FOLLOW_LIST_PAGE_SIZE),
+  ];
+
+  if (cursor) {
+    queries.push(Query.cursorAfter(cursor));
+  }
+
+  try {
+    const follows = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.followsCollectionId,
+      queries
+    );
+
+    const userIds: string[] = follows.documents.map((follow) => follow[otherKey]);
+
+    if (userIds.length === 0) {
+      return { users: [], followsYou: [], nextCursor: null };
+    }
+
+    const [users, followsBack] = await Promise.all([
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.userCollectionId,
+        [Query.equal("$id", userIds), Query.limit(userIds.length)]
+      ),
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.followsCollectionId,
+        [
+          Query.equal("follower", userIds),
+          Query.equal("followee", viewerId),
+          Query.limit(userIds.length),
+        ]
+      ),
+    ]);
+
+    const usersById = new Map(users.documents.map((user) => [user.$id, user]));
+
+    const nextCursor =
+      follows.documents.length === FOLLOW_LIST_PAGE_SIZE
+        ? follows.documents[follows.documents.length - 1].$id
+        : null;
+
+    return {
+      users: userIds
+        .map((id) => usersById.get(id))
+        .filter((user): user is Models.Document => !!user),
+      followsYou: followsBack.documents.map((follow) => follow.follower),
+      nextCursor,
+    };
+  } catch (error) {
+    console.log('Error fetching follow list:', error);
+    throw error;
+  }
+}
+
+// ============================== MIGRATE LEGACY FOLLOWS
+// Accounts from before follow records existed still carry a `followingId`
+// array. It is turned into follow records when the account next signs in and
+// then cleared, so this runs once per account; follows that fail stay in the
+// array and are retried on the next sign-in. Only the signed-in user's own
+// follows are migrated: the mirrored `followerId` arrays on other accounts go
+// stale as soon as someone unfollows, so they are never read.
+export async function migrateLegacyFollows(user: Models.Document) {
+  const followingIds: string[] = user.followingId ?? [];
+
+  if (followingIds.length === 0) return;
+
+  try {
+    // Blocks severed these follows, so they are dropped rather than restored.
+    const { blocked } = await getHiddenUserIds(user.$id);
+    const followeeIds = followingIds.filter(
+      (followeeId) => followeeId !== user.$id && !blocked.includes(followeeId)
+    );
+
+    const results = await Promise.allSettled(
+      followeeIds.map((followeeId) => createFollow(user.$id, followeeId))
+    );
+
+    await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      user.$id,
+      {
+        followingId: followeeIds.filter((_, index) => results[index].status === "rejected"),
+      }
+    );
+  } catch (error) {
+    // The array is left in place, so the next sign-in tries again.
+    console.log('Error migrating legacy follows:', error);
+  }
+}
+
+// ===========================================================
+// BLOCK & MUTE
+// ===========================================================
+
+// Blocks ({ blocker, blocked }) and mutes ({ muter, muted }) are pair records
+// keyed like follows. A block hides both accounts from each other everywhere;
+// a mute only hides the muted account's posts from the muter's feeds.
+
+// ============================== BLOCK USER
+export async function blockUser(targetUserId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
+
+    if (currentUser.$id === targetUserId) {
+      throw new Error('Users cannot block themselves');
+    }
+
+    await createPairRecord(
+      appwriteConfig.blocksCollectionId,
+      await getRelationshipId(currentUser.$id, targetUserId),
+      { blocker: currentUser.$id, blocked: targetUserId }
+    );
+
+    // Blocking severs the relationship in both directions.
+    await Promise.all([
+      deleteFollow(currentUser.$id, targetUserId),
+      deleteFollow(targetUserId, currentUser.$id),
+      deleteFollowRequest(currentUser.$id, targetUserId),
+      deleteFollowRequest(targetUserId, currentUser.$id),
+    ]);
+
+    return { status: "Ok" };
+  } catch (error: any) {
+    console.log('Error blocking user:', error.message);
+    throw error;
+  }
+}
+
+// ============================== UNBLOCK USER
+export async function unblockUser(targetUserId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
+
+    await deletePairRecord(
+      appwriteConfig.blocksCollectionId,
+      await getRelationshipId(currentUser.$id, targetUserId)
+    );
+
+    return { status: "Ok" };
+  } catch (error: any) {
+    console.log('Error unblocking user:', error.message);
+    throw error;
+  }
+}
+
+// ============================== MUTE USER
+export async function muteUser(targetUserId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
+    }
 
-      return updatedCurrentUser;
+    if (currentUser.$id === targetUserId) {
+      throw new Error('Users cannot mute themselves');
     }
 
-    return currentUser;
+    await createPairRecord(
+      appwriteConfig.mutesCollectionId,
+      await getRelationshipId(currentUser.$id, targetUserId),
+      { muter: currentUser.$id, muted: targetUserId }
+    );
+
+    return { status: "Ok" };
   } catch (error: any) {
-    console.log('Error following user:', error.message);
+    console.log('Error muting user:', error.message);
     throw error;
   }
 }
 
-
-// ============================== UNFOLLOW USER
-export async function unfollowUser(userIdToUnfollow: string) {
+// ============================== UNMUTE USER
+export async function unmuteUser(targetUserId: string) {
   try {
     const currentUser = await getCurrentUser();
 
-    if (!currentUser || !currentUser.followingId) {
-      throw new Error('Invalid or missing followingId in the current user data');
+    if (!currentUser || !currentUser.$id) {
+      throw new Error('Invalid or missing current user data');
     }
 
-    if (currentUser.followingId.includes(userIdToUnfollow)) {
-      const updatedUser = await databases.updateDocument(
-        appwriteConfig.databaseId,
-        appwriteConfig.userCollectionId,
-        currentUser.$id,
-        {
-          followingId: currentUser.followingId.filter((id: string) => id !== userIdToUnfollow),
-        }
-      );
-
-      if (!updatedUser) {
-        throw new Error('Failed to update user data while unfollowing user');
-      }
-
-      const targetUser = await databases.getDocument(
-        appwriteConfig.databaseId,
-        appwriteConfig.userCollectionId,
-        userIdToUnfollow
-      );
+    await deletePairRecord(
+      appwriteConfig.mutesCollectionId,
+      await getRelationshipId(currentUser.$id, targetUserId)
+    );
 
-      if (!targetUser) {
-        throw new Error(`Target user with ID ${userIdToUnfollow} not found`);
-      }
+    return { status: "Ok" };
+  } catch (error: any) {
+    console.log('Error unmuting user:', error.message);
+    throw error;
+  }
+}
 
-      targetUser.followerId = targetUser.followerId.filter((id: string) => id !== currentUser.$id);
+// ============================== GET HIDDEN USER IDS
+// `blocked` covers blocks in either direction; `muted` only the viewer's mutes.
+export async function getHiddenUserIds(userId: string) {
+  try {
+    const [blockedIds, blockedByIds, mutedIds] = await Promise.all([
+      listPairIds(appwriteConfig.blocksCollectionId, "blocker", userId, "blocked"),
+      listPairIds(appwriteConfig.blocksCollectionId, "blocked", userId, "blocker"),
+      listPairIds(appwriteConfig.mutesCollectionId, "muter", userId, "muted"),
+    ]);
 
-      const updatedTargetUser = await databases.updateDocument(
-        appwriteConfig.databaseId,
-        appwriteConfig.userCollectionId,
-        userIdToUnfollow,
-        { followerId: targetUser.followerId }
-      );
+    return { blocked: [...blockedIds, ...blockedByIds], muted: mutedIds };
+  } catch (error) {
+    console.log('Error fetching hidden users:', error);
+    throw error;
+  }
+}
 
-      if (!updatedTargetUser) {
-        throw new Error(`Failed to update target user ${userIdToUnfollow} by removing follower ${currentUser.$id}`);
-      }
+// ============================== GET VIEWER HIDDEN USER IDS
+export async function getViewerHiddenUserIds() {
+  const viewer = await getCurrentUser();
 
-      return updatedUser;
-    }
+  return viewer
+    ? await getHiddenUserIds(viewer.$id)
+    : { blocked: [] as string[], muted: [] as string[] };
+}
 
-    return currentUser;
-  } catch (error: any) {
-    console.log('Error unfollowing user:', error.message);
-    return null; 
-  }
+// ============================== IS BLOCKED BETWEEN
+export async function isBlockedBetween(userId: string, otherUserId: string) {
+  const records = await databases.listDocuments(
+    appwriteConfig.databaseId,
+    appwriteConfig.blocksCollectionId,
+    [
+      Query.equal("$id", [
+        await getRelationshipId(userId, otherUserId),
+        await getRelationshipId(otherUserId, userId),
+      ]),
+      Query.limit(1),
+    ]
+  );
+
+  return records.total > 0;
 }
 
+// ============================== GET USER RELATIONSHIP
+export type UserRelationship = {
+  isBlocked: boolean;
+  isBlockedBy: boolean;
+  isMuted: boolean;
+};
 
-// ============================== GET FOLLOWINGS
-export async function isFollowingA(targetUserId: string): Promise<boolean> {
+export async function getUserRelationship(targetUserId: string): Promise<UserRelationship> {
   try {
-    
     const currentUser = await getCurrentUser();
 
-    if (!currentUser || !currentUser.followingId) {
-      return false; 
+    if (!currentUser || currentUser.$id === targetUserId) {
+      return { isBlocked: false, isBlockedBy: false, isMuted: false };
     }
 
-    const isFollowing = currentUser.followingId.includes(targetUserId);
-    return isFollowing;
+    // Block and mute records share the same id for the same pair.
+    const [outgoingId, incomingId] = await Promise.all([
+      getRelationshipId(currentUser.$id, targetUserId),
+      getRelationshipId(targetUserId, currentUser.$id),
+    ]);
+
+    const [blocks, mutes] = await Promise.all([
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.blocksCollectionId,
+        [Query.equal("$id", [outgoingId, incomingId]), Query.limit(2)]
+      ),
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.mutesCollectionId,
+        [Query.equal("$id", outgoingId), Query.limit(1)]
+      ),
+    ]);
+
+    return {
+      isBlocked: blocks.documents.some((block) => block.$id === outgoingId),
+      isBlockedBy: blocks.documents.some((block) => block.$id === incomingId),
+      isMuted: mutes.total > 0,
+    };
   } catch (error) {
-    console.error('Error checking isFollowing status:', error);
+    console.log('Error fetching user relationship:', error);
     throw error;
   }
 }
-// ============================== GET FOLLOWERS COUNT
-export async function getFollowersCount(userId: string): Promise<number> {
+
+// ============================== GET BLOCKED / MUTED USERS
+export async function getBlockedUsers(userId: string) {
   try {
-    const user = await getUserById(userId);
-    if (!user || !user.followerId) return 0;
-    return user.followerId.length;
+    const blockedIds = await listPairIds(
+      appwriteConfig.blocksCollectionId,
+      "blocker",
+      userId,
+      "blocked"
+    );
+
+    return await getUsersByIds(blockedIds);
   } catch (error) {
-    console.log('Error fetching followers count:', error);
-    return 0;
+    console.log('Error fetching blocked users:', error);
+    throw error;
   }
 }
 
-// ============================== GET FOLLOWINGS COUNT
-export async function getFollowingsCount(userId: string): Promise<number> {
+export async function getMutedUsers(userId: string) {
   try {
-    const user = await getUserById(userId);
-    if (!user || !user.followingId) return 0;
-    return user.followingId.length;
+    const mutedIds = await listPairIds(
+      appwriteConfig.mutesCollectionId,
+      "muter",
+      userId,
+      "muted"
+    );
+
+    return await getUsersByIds(mutedIds);
   } catch (error) {
-    console.log('Error fetching followings count:', error);
-    return 0;
+    console.log('Error fetching muted users:', error);
+    throw error;
   }
 }
 
@@ -715,7 +2558,11 @@ function generateUniqueId() {
 }
 
 // ============================= CREATE COMMENTS
-export async function createComment(commentText: string, postId: string): Promise<void> {
+export async function createComment(
+  commentText: string,
+  postId: string,
+  parentId: string | null = null
+): Promise<CommentData> {
   try {
     const currentUser = await getCurrentUser();
 
@@ -723,9 +2570,16 @@ export async function createComment(commentText: string, postId: string): Promis
       throw new Error('Invalid or missing current user data');
     }
 
+    const post = await getPostById(postId);
+
+    if (post?.creator && (await isBlockedBetween(currentUser.$id, post.creator.$id))) {
+      throw new Error('Cannot comment on this post');
+    }
+
     const { commentsCollectionId } = appwriteConfig;
 
     const commentId = generateUniqueId();
+    const mentions = await resolveMentions(commentText);
 
     const commentData = {
       commentId,
@@ -733,15 +2587,29 @@ export async function createComment(commentText: string, postId: string): Promis
       commentText,
       createdAt: new Date().toISOString(),
       postId,
+      parentId,
+      likes: [],
+      likesCount: 0,
+      mentions: serializeMentions(mentions),
     };
 
-    await databases.createDocument(
+    const newComment = await databases.createDocument(
       appwriteConfig.databaseId,
       commentsCollectionId,
       commentId,
       commentData
     );
-    return; 
+
+    await syncPostCommentsCount(postId);
+
+    await createMentionNotifications({
+      actorId: currentUser.$id,
+      mentions,
+      postId,
+      commentId,
+    });
+
+    return toCommentData(newComment, currentUser);
   } catch (error) {
     throw error;
   }
@@ -750,71 +2618,303 @@ export async function createComment(commentText: string, postId: string): Promis
 // ============================= GET COMMENTS
 export interface CommentData {
   userName: ReactNode;
+  userUsername: string;
   userImage: string | undefined;
   commentId: string;
   userId: string;
   postId: string;
   commentText: string;
   createdAt: string;
+  parentId: string | null;
+  isDeleted: boolean;
+  likes: string[];
+  mentions: IMention[];
 }
-// ============================= GET COMMENT DATA
 
-export async function getCommentsData(): Promise<CommentData[]> {
-  try {
-    const { commentsCollectionId } = appwriteConfig;
+export interface CommentThread extends CommentData {
+  replies: CommentThread[];
+}
 
-    const response = await databases.listDocuments(
+export type CommentSort = "top" | "newest" | "oldest";
+
+export type CommentsPage = {
+  documents: CommentData[];
+  total: number;
+  nextCursor: string | null;
+};
+
+const COMMENTS_PAGE_SIZE = 20;
+
+// ============================= GET COMMENT AUTHORS
+async function getCommentAuthors(userIds: string[]) {
+  const uniqueIds = Array.from(new Set(userIds));
+  const authors = new Map<string, Models.Document>();
+
+  for (let i = 0; i < uniqueIds.length; i += MAX_EQUAL_QUERY_VALUES) {
+    const chunk = uniqueIds.slice(i, i + MAX_EQUAL_QUERY_VALUES);
+    const users = await databases.listDocuments(
       appwriteConfig.databaseId,
-      commentsCollectionId
+      appwriteConfig.userCollectionId,
+      [Query.equal("$id", chunk), Query.limit(chunk.length)]
     );
 
-    const commentsData: CommentData[] = [];
+    users.documents.forEach((user) => authors.set(user.$id, user));
+  }
+
+  return authors;
+}
+
+function toCommentData(document: Models.Document, author?: Models.Document): CommentData {
+  return {
+    commentId: document.$id,
+    userId: document.userId,
+    userName: author?.name || 'Unknown',
+    userUsername: author?.username || '',
+    userImage: author?.imageUrl || '/assets/icons/profile-placeholder.svg',
+    postId: document.postId,
+    commentText: document.commentText,
+    createdAt: document.createdAt,
+    parentId: document.parentId || null,
+    isDeleted: !!document.isDeleted,
+    likes: document.likes ?? [],
+    mentions: parseMentions(document.mentions),
+  };
+}
+
+function getCommentOrder(sort: CommentSort) {
+  switch (sort) {
+    case "top":
+      return [Query.orderDesc("likesCount"), Query.orderDesc("$createdAt")];
+    case "newest":
+      return [Query.orderDesc("$createdAt")];
+    default:
+      return [Query.orderAsc("$createdAt")];
+  }
+}
 
-    for (const document of response.documents) {
-      try {
-        const {
-          $id,
-          userId,
-          postId,
-          commentText,
-          createdAt,
-        } = document;
+// ============================= GET COMMENT REPLIES
+// Walks down the reply tree one level at a time, so every reply under the
+// given comments is returned regardless of how deep it is nested.
+async function getCommentReplies(parentIds: string[]): Promise<Models.Document[]> {
+  const replies: Models.Document[] = [];
+  let levelIds = parentIds;
+
+  while (levelIds.length > 0) {
+    const level: Models.Document[] = [];
+
+    for (let i = 0; i < levelIds.length; i += MAX_EQUAL_QUERY_VALUES) {
+      let cursor: string | undefined;
+
+      while (true) {
+        const queries: any[] = [
+          Query.equal("parentId", levelIds.slice(i, i + MAX_EQUAL_QUERY_VALUES)),
+          Query.orderAsc("$createdAt"),
+          Query.limit(100),
+        ];
+        if (cursor) {
+          queries.push(Query.cursorAfter(cursor));
+        }
 
-        if ($id && userId && postId && commentText !== undefined && createdAt) {
-          const userDetails = await getUserById(userId);
+        const page = await databases.listDocuments(
+          appwriteConfig.databaseId,
+          appwriteConfig.commentsCollectionId,
+          queries
+        );
 
-          const userName = userDetails?.name || 'Unknown';
-          const userImage = userDetails?.imageUrl || '/assets/icons/profile-placeholder.svg';
+        level.push(...page.documents);
 
-          commentsData.push({
-            commentId: $id,
-            userId,
-            userName,
-            userImage,
-            postId,
-            commentText,
-            createdAt,
-          });
-        } 
-      } catch (error) {
+        if (page.documents.length < 100) break;
+        cursor = page.documents[page.documents.length - 1].$id;
       }
     }
 
-    return commentsData;
+    replies.push(...level);
+    levelIds = level.map((reply) => reply.$id);
+  }
+
+  return replies;
+}
+
+// ============================= HIDE BLOCKED COMMENTS
+// Drops comments by `blockedIds` together with every reply beneath them, so
+// the replies aren't surfaced at the top level once their parent is gone.
+// Parents must come before their replies, as getCommentReplies returns them.
+function hideBlockedComments(documents: Models.Document[], blockedIds: string[]) {
+  const hiddenIds = new Set<string>();
+
+  return documents.filter((document) => {
+    const isHidden =
+      blockedIds.includes(document.userId) ||
+      (!!document.parentId && hiddenIds.has(document.parentId));
+
+    if (isHidden) hiddenIds.add(document.$id);
+    return !isHidden;
+  });
+}
+
+// ============================= GET COMMENTS BY POST
+// Pages through top-level comments only; each page carries the full reply
+// tree of its comments, so a reply never shows up before its parent. `total`
+// counts every comment on the post, replies included. Comments by
+// `blockedIds` are left out along with their replies; callers pass the
+// viewer's cached list.
+export async function getCommentsByPost(
+  postId: string,
+  cursor?: string | null,
+  sort: CommentSort = "oldest",
+  blockedIds: string[] = [],
+  limit: number = COMMENTS_PAGE_SIZE
+): Promise<CommentsPage> {
+  try {
+    const queries: any[] = [
+      Query.equal("postId", postId),
+      Query.isNull("parentId"),
+      ...getCommentOrder(sort),
+      Query.limit(limit),
+    ];
+
+    if (cursor) {
+      queries.push(Query.cursorAfter(cursor));
+    }
+
+    const [response, allComments] = await Promise.all([
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.commentsCollectionId,
+        queries
+      ),
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.commentsCollectionId,
+        [Query.equal("postId", postId), Query.limit(1)]
+      ),
+    ]);
+
+    const replies = await getCommentReplies(
+      response.documents.map((document) => document.$id)
+    );
+
+    const visibleDocuments = hideBlockedComments(
+      [...response.documents, ...replies],
+      blockedIds
+    );
+
+    const authors = await getCommentAuthors(
+      visibleDocuments.map((document) => document.userId)
+    );
+
+    const documents = visibleDocuments.map((document) =>
+      toCommentData(document, authors.get(document.userId))
+    );
+
+    const nextCursor =
+      response.documents.length === limit
+        ? response.documents[response.documents.length - 1].$id
+        : null;
+
+    return { documents, total: allComments.total, nextCursor };
+  } catch (error) {
+    throw error;
+  }
+}
+
+// ============================= GET LATEST COMMENTS
+// The newest comments at any depth, for the previews on feeds. `total` comes
+// with the same request and counts every comment on the post.
+export async function getLatestComments(
+  postId: string,
+  blockedIds: string[] = [],
+  limit: number = 2
+): Promise<CommentData[]> {
+  try {
+    const response = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.commentsCollectionId,
+      [Query.equal("postId", postId), Query.orderDesc("$createdAt"), Query.limit(limit)]
+    );
+
+    const visibleDocuments = response.documents.filter(
+      (document) => !blockedIds.includes(document.userId)
+    );
+
+    const authors = await getCommentAuthors(
+      visibleDocuments.map((document) => document.userId)
+    );
+
+    return visibleDocuments.map((document) =>
+      toCommentData(document, authors.get(document.userId))
+    );
   } catch (error) {
     throw error;
   }
 }
 
+// ============================= SYNC POST COMMENTS COUNT
+// Posts store `commentsCount` so lists can show it without querying comments.
+// It is recounted rather than incremented, so concurrent comments can't leave
+// it behind, and tombstoned comments aren't counted.
+async function syncPostCommentsCount(postId: string) {
+  try {
+    const [comments, tombstones] = await Promise.all([
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.commentsCollectionId,
+        [Query.equal("postId", postId), Query.limit(1)]
+      ),
+      databases.listDocuments(
+        appwriteConfig.databaseId,
+        appwriteConfig.commentsCollectionId,
+        [Query.equal("postId", postId), Query.equal("isDeleted", true), Query.limit(1)]
+      ),
+    ]);
+
+    await databases.updateDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.postCollectionId,
+      postId,
+      { commentsCount: comments.total - tombstones.total }
+    );
+  } catch (error) {
+    // The comment change itself went through; the next sync corrects the count.
+    console.log(error);
+  }
+}
 
 // ============================= DELETE COMMENT
-export async function deleteComment(commentId: string): Promise<void> {
+// Comments that still have replies are tombstoned instead of removed so the
+// thread underneath them stays readable.
+export async function deleteComment(
+  commentId: string,
+  postId: string
+): Promise<{ tombstoned: boolean }> {
   try {
+    const replies = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.commentsCollectionId,
+      [Query.equal("parentId", commentId), Query.limit(1)]
+    );
+
+    if (replies.total > 0) {
+      await databases.updateDocument(
+        appwriteConfig.databaseId,
+        appwriteConfig.commentsCollectionId,
+        commentId,
+        { commentText: "", isDeleted: true }
+      );
+      await syncPostCommentsCount(postId);
+
+      return { tombstoned: true };
+    }
+
     await databases.deleteDocument(
       appwriteConfig.databaseId,
       appwriteConfig.commentsCollectionId,
       commentId
     );
+
+    await syncPostCommentsCount(postId);
+
+    return { tombstoned: false };
   } catch (error) {
     throw error;
   }
@@ -823,28 +2923,279 @@ export async function deleteComment(commentId: string): Promise<void> {
 // ============================= EDIT COMMENT
 export async function editComment(commentId: string, data: { commentText: string }): Promise<CommentData> {
   try {
-    const { commentsCollectionId } = appwriteConfig;
-
-    const commentsData = await getCommentsData();
-
-    const commentIndex = commentsData.findIndex(comment => comment.commentId === commentId);
+    const previousComment = await databases.getDocument(
+      appwriteConfig.databaseId,
+      appwriteConfig.commentsCollectionId,
+      commentId
+    );
 
-    if (commentIndex === -1) {
+    if (!previousComment) {
       throw new Error("Comment not found");
     }
 
-    commentsData[commentIndex].commentText = data.commentText;
+    const previousMentions = parseMentions(previousComment.mentions);
+    const mentions = await resolveMentions(data.commentText);
 
-    await databases.updateDocument(
+    const updatedComment = await databases.updateDocument(
       appwriteConfig.databaseId,
-      commentsCollectionId,
+      appwriteConfig.commentsCollectionId,
+      commentId,
+      { commentText: data.commentText, mentions: serializeMentions(mentions) } 
+    );
+
+    await createMentionNotifications({
+      actorId: updatedComment.userId,
+      mentions: mentions.filter(
+        (mention) => !previousMentions.some((previous) => previous.userId === mention.userId)
+      ),
+      postId: updatedComment.postId,
       commentId,
-      { commentText: data.commentText } 
+    });
+
+    const authors = await getCommentAuthors([updatedComment.userId]);
+
+    return toCommentData(updatedComment, authors.get(updatedComment.userId));
+  } catch (error) {
+    throw error;
+  }
+}
+
+// ============================= LIKE / UNLIKE COMMENT
+// `likesCount` mirrors `likes.length` so comments can be ordered by it.
+async function updateCommentLikes(
+  commentId: string,
+  update: (likes: string[]) => string[]
+): Promise<CommentData> {
+  const comment = await databases.getDocument(
+    appwriteConfig.databaseId,
+    appwriteConfig.commentsCollectionId,
+    commentId
+  );
+
+  const likes = update(comment.likes ?? []);
+
+  const updatedComment = await databases.updateDocument(
+    appwriteConfig.databaseId,
+    appwriteConfig.commentsCollectionId,
+    commentId,
+    { likes, likesCount: likes.length }
+  );
+
+  const authors = await getCommentAuthors([updatedComment.userId]);
+
+  return toCommentData(updatedComment, authors.get(updatedComment.userId));
+}
+
+export async function likeComment(commentId: string, userId: string): Promise<CommentData> {
+  try {
+    return await updateCommentLikes(commentId, (likes) =>
+      likes.includes(userId) ? likes : [...likes, userId]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function unlikeComment(commentId: string, userId: string): Promise<CommentData> {
+  try {
+    return await updateCommentLikes(commentId, (likes) =>
+      likes.filter((id) => id !== userId)
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+// ===========================================================
+// MENTIONS
+// ===========================================================
+
+// ============================= SEARCH USERS BY USERNAME
+export async function searchUsersByUsername(prefix: string, limit: number = 5) {
+  try {
+    const users = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.userCollectionId,
+      [Query.startsWith("usernameLower", prefix.toLowerCase()), Query.limit(limit)]
+    );
+
+    if (!users) throw Error;
+
+    return users;
+  } catch (error) {
+    console.log(error);
+  }
+}
+
+// ============================= RESOLVE MENTIONS
+// Turns the `@username` tokens in a caption or comment into references to
+// existing users. Unknown usernames are left as plain text.
+export async function resolveMentions(text: string): Promise<IMention[]> {
+  const usernames = extractMentionUsernames(text);
+
+  if (usernames.length === 0) return [];
+
+  const users = await databases.listDocuments(
+    appwriteConfig.databaseId,
+    appwriteConfig.userCollectionId,
+    [Query.equal("username", usernames), Query.limit(usernames.length)]
+  );
+
+  return users.documents.map((user) => ({
+    userId: user.$id,
+    username: user.username,
+  }));
+}
+
+// ===========================================================
+// NOTIFICATIONS
+// ===========================================================
+
+// ============================= CREATE MENTION NOTIFICATIONS
+export async function createMentionNotifications({
+  actorId,
+  mentions,
+  postId,
+  commentId = null,
+}: {
+  actorId: string;
+  mentions: IMention[];
+  postId: string;
+  commentId?: string | null;
+}) {
+  try {
+    // Blocks work both ways: neither side hears about the other's mentions.
+    const candidates = mentions.filter((mention) => mention.userId !== actorId);
+    const blocked = await Promise.all(
+      candidates.map((mention) => isBlockedBetween(actorId, mention.userId))
+    );
+    const recipients = candidates.filter((_, index) => !blocked[index]);
+
+    await Promise.all(
+      recipients.map((mention) =>
+        databases.createDocument(
+          appwriteConfig.databaseId,
+          appwriteConfig.notificationsCollectionId,
+          ID.unique(),
+          {
+            userId: mention.userId,
+            actorId,
+            type: "mention",
+            postId,
+            commentId,
+            isRead: false,
+          }
+        )
+      )
+    );
+  } catch (error) {
+    // A failed notification should never undo the post or comment itself.
+    console.log(error);
+  }
+}
+
+// ============================= GET NOTIFICATIONS
+export type NotificationData = {
+  notificationId: string;
+  type: string;
+  postId: string;
+  commentId: string | null;
+  isRead: boolean;
+  createdAt: string;
+  actor?: Models.Document;
+};
+
+export type NotificationsPage = {
+  notifications: NotificationData[];
+  nextCursor: string | null;
+};
+
+const NOTIFICATIONS_PAGE_SIZE = 20;
+
+// Notifications from users the viewer blocked are dropped, but the cursor
+// still comes from the unfiltered page so paging never stalls.
+export async function getNotifications(
+  userId: string,
+  cursor?: string,
+  hiddenIds: string[] = []
+): Promise<NotificationsPage> {
+  const queries: any[] = [
+    Query.equal("userId", userId),
+    Query.orderDesc("$createdAt"),
+    Query.limit(NOTIFICATIONS_PAGE_SIZE),
+  ];
+
+  if (cursor) {
+    queries.push(Query.cursorAfter(cursor));
+  }
+
+  try {
+    const response = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.notificationsCollectionId,
+      queries
+    );
+
+    const visible = response.documents.filter(
+      (notification) => !hiddenIds.includes(notification.actorId)
+    );
+    const actors = await getUsersByIds([
+      ...new Set(visible.map((notification) => notification.actorId as string)),
+    ]);
+    const actorsById = new Map(actors.map((actor) => [actor.$id, actor]));
+
+    return {
+      notifications: visible.map((notification) => ({
+        notificationId: notification.$id,
+        type: notification.type,
+        postId: notification.postId,
+        commentId: notification.commentId ?? null,
+        isRead: !!notification.isRead,
+        createdAt: notification.$createdAt,
+        actor: actorsById.get(notification.actorId),
+      })),
+      nextCursor:
+        response.documents.length === NOTIFICATIONS_PAGE_SIZE
+          ? response.documents[response.documents.length - 1].$id
+          : null,
+    };
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
+
+// ============================= GET UNREAD NOTIFICATIONS COUNT
+export async function getUnreadNotificationsCount(userId: string): Promise<number> {
+  try {
+    const unread = await databases.listDocuments(
+      appwriteConfig.databaseId,
+      appwriteConfig.notificationsCollectionId,
+      [Query.equal("userId", userId), Query.equal("isRead", false), Query.limit(1)]
     );
 
-    return commentsData[commentIndex];
+    return unread.total;
   } catch (error) {
+    console.log(error);
     throw error;
   }
 }
 
+// ============================= MARK NOTIFICATIONS READ
+export async function markNotificationsRead(notificationIds: string[]) {
+  try {
+    await Promise.all(
+      notificationIds.map((notificationId) =>
+        databases.updateDocument(
+          appwriteConfig.databaseId,
+          appwriteConfig.notificationsCollectionId,
+          notificationId,
+          { isRead: true }
+        )
+      )
+    );
+  } catch (error) {
+    console.log(error);
+    throw error;
+  }
+}
@@ -9,6 +9,11 @@ export const appwriteConfig = {
   postCollectionId: import.meta.env.VITE_APPWRITE_POST_COLLECTION_ID,
   savesCollectionId: import.meta.env.VITE_APPWRITE_SAVES_COLLECTION_ID,
   commentsCollectionId: import.meta.env.VITE_APPWRITE_COMMENTS_COLLECTION_ID,
+  followsCollectionId: import.meta.env.VITE_APPWRITE_FOLLOWS_COLLECTION_ID,
+  followRequestsCollectionId: import.meta.env.VITE_APPWRITE_FOLLOW_REQUESTS_COLLECTION_ID,
+  blocksCollectionId: import.meta.env.VITE_APPWRITE_BLOCKS_COLLECTION_ID,
+  mutesCollectionId: import.meta.env.VITE_APPWRITE_MUTES_COLLECTION_ID,
+  notificationsCollectionId: import.meta.env.VITE_APPWRITE_NOTIFICATIONS_COLLECTION_ID,
 };
 
 export const client = new Client();
@@ -0,0 +1,260 @@
+// Offline reverse-geocoding table: [city, country, latitude, longitude].
+// Kept to larger cities and regional capitals so the bundle stays small;
+// photos taken far from all of them simply get no suggestion.
+export type City = [name: string, country: string, latitude: number, longitude: number];
+
+export const CITIES: City[] = [
+  // Balkans
+  ["Skopje", "North Macedonia", 41.9981, 21.4254],
+  ["Bitola", "North Macedonia", 41.0297, 21.3292],
+  ["Ohrid", "North Macedonia", 41.1172, 20.8016],
+  ["Kumanovo", "North Macedonia", 42.1322, 21.7144],
+  ["Tetovo", "North Macedonia", 42.0069, 20.9715],
+  ["Prilep", "North Macedonia", 41.3464, 21.5542],
+  ["Štip", "North Macedonia", 41.7458, 22.1958],
+  ["Strumica", "North Macedonia", 41.4375, 22.6433],
+  ["Belgrade", "Serbia", 44.7866, 20.4489],
+  ["Novi Sad", "Serbia", 45.2671, 19.8335],
+  ["Niš", "Serbia", 43.3209, 21.8958],
+  ["Pristina", "Kosovo", 42.6629, 21.1655],
+  ["Tirana", "Albania", 41.3275, 19.8187],
+  ["Durrës", "Albania", 41.3246, 19.4565],
+  ["Podgorica", "Montenegro", 42.4304, 19.2594],
+  ["Sarajevo", "Bosnia and Herzegovina", 43.8563, 18.4131],
+  ["Mostar", "Bosnia and Herzegovina", 43.3438, 17.8078],
+  ["Zagreb", "Croatia", 45.815, 15.9819],
+  ["Split", "Croatia", 43.5081, 16.4402],
+  ["Dubrovnik", "Croatia", 42.6507, 18.0944],
+  ["Ljubljana", "Slovenia", 46.0569, 14.5058],
+  ["Sofia", "Bulgaria", 42.6977, 23.3219],
+  ["Plovdiv", "Bulgaria", 42.1354, 24.7453],
+  ["Varna", "Bulgaria", 43.2141, 27.9147],
+  ["Bucharest", "Romania", 44.4268, 26.1025],
+  ["Cluj-Napoca", "Romania", 46.7712, 23.6236],
+  ["Athens", "Greece", 37.9838, 23.7275],
+  ["Thessaloniki", "Greece", 40.6401, 22.9444],
+  ["Heraklion", "Greece", 35.3387, 25.1442],
+  ["Istanbul", "Turkey", 41.0082, 28.9784],
+  ["Ankara", "Turkey", 39.9334, 32.8597],
+  ["Izmir", "Turkey", 38.4237, 27.1428],
+  ["Antalya", "Turkey", 36.8969, 30.7133],
+
+  // Western & Central Europe
+  ["London", "United Kingdom", 51.5074, -0.1278],
+  ["Manchester", "United Kingdom", 53.4808, -2.2426],
+  ["Birmingham", "United Kingdom", 52.4862, -1.8904],
+  ["Edinburgh", "United Kingdom", 55.9533, -3.1883],
+  ["Glasgow", "United Kingdom", 55.8642, -4.2518],
+  ["Dublin", "Ireland", 53.3498, -6.2603],
+  ["Paris", "France", 48.8566, 2.3522],
+  ["Lyon", "France", 45.764, 4.8357],
+  ["Marseille", "France", 43.2965, 5.3698],
+  ["Nice", "France", 43.7102, 7.262],
+  ["Bordeaux", "France", 44.8378, -0.5792],
+  ["Toulouse", "France", 43.6047, 1.4442],
+  ["Brussels", "Belgium", 50.8503, 4.3517],
+  ["Antwerp", "Belgium", 51.2194, 4.4025],
+  ["Amsterdam", "Netherlands", 52.3676, 4.9041],
+  ["Rotterdam", "Netherlands", 51.9244, 4.4777],
+  ["Luxembourg", "Luxembourg", 49.6116, 6.1319],
+  ["Berlin", "Germany", 52.52, 13.405],
+  ["Hamburg", "Germany", 53.5511, 9.9937],
+  ["Munich", "Germany", 48.1351, 11.582],
+  ["Cologne", "Germany", 50.9375, 6.9603],
+  ["Frankfurt", "Germany", 50.1109, 8.6821],
+  ["Stuttgart", "Germany", 48.7758, 9.1829],
+  ["Düsseldorf", "Germany", 51.2277, 6.7735],
+  ["Leipzig", "Germany", 51.3397, 12.3731],
+  ["Dresden", "Germany", 51.0504, 13.7373],
+  ["Zurich", "Switzerland", 47.3769, 8.5417],
+  ["Geneva", "Switzerland", 46.2044, 6.1432],
+  ["Bern", "Switzerland", 46.948, 7.4474],
+  ["Vienna", "Austria", 48.2082, 16.3738],
+  ["Salzburg", "Austria", 47.8095, 13.055],
+  ["Graz", "Austria", 47.0707, 15.4395],
+  ["Prague", "Czechia", 50.0755, 14.4378],
+  ["Brno", "Czechia", 49.1951, 16.6068],
+  ["Bratislava", "Slovakia", 48.1486, 17.1077],
+  ["Budapest", "Hungary", 47.4979, 19.0402],
+  ["Warsaw", "Poland", 52.2297, 21.0122],
+  ["Kraków", "Poland", 50.0647, 19.945],
+  ["Gdańsk", "Poland", 54.352, 18.6466],
+  ["Wrocław", "Poland", 51.1079, 17.0385],
+
+  // Southern Europe
+  ["Rome", "Italy", 41.9028, 12.4964],
+  ["Milan", "Italy", 45.4642, 9.19],
+  ["Naples", "Italy", 40.8518, 14.2681],
+  ["Turin", "Italy", 45.0703, 7.6869],
+  ["Florence", "Italy", 43.7696, 11.2558],
+  ["Venice", "Italy", 45.4408, 12.3155],
+  ["Bologna", "Italy", 44.4949, 11.3426],
+  ["Palermo", "Italy", 38.1157, 13.3615],
+  ["Madrid", "Spain", 40.4168, -3.7038],
+  ["Barcelona", "Spain", 41.3851, 2.1734],
+  ["Valencia", "Spain", 39.4699, -0.3763],
+  ["Seville", "Spain", 37.3891, -5.9845],
+  ["Málaga", "Spain", 36.7213, -4.4214],
+  ["Bilbao", "Spain", 43.263, -2.935],
+  ["Palma", "Spain", 39.5696, 2.6502],
+  ["Lisbon", "Portugal", 38.7223, -9.1393],
+  ["Porto", "Portugal", 41.1579, -8.6291],
+  ["Valletta", "Malta", 35.8989, 14.5146],
+  ["Nicosia", "Cyprus", 35.1856, 33.3823],
+
+  // Northern & Eastern Europe
+  ["Copenhagen", "Denmark", 55.6761, 12.5683],
+  ["Stockholm", "Sweden", 59.3293, 18.0686],
+  ["Gothenburg", "Sweden", 57.7089, 11.9746],
+  ["Oslo", "Norway", 59.9139, 10.7522],
+  ["Bergen", "Norway", 60.3913, 5.3221],
+  ["Helsinki", "Finland", 60.1699, 24.9384],
+  ["Reykjavík", "Iceland", 64.1466, -21.9426],
+  ["Tallinn", "Estonia", 59.437, 24.7536],
+  ["Riga", "Latvia", 56.9496, 24.1052],
+  ["Vilnius", "Lithuania", 54.6872, 25.2797],
+  ["Kyiv", "Ukraine", 50.4501, 30.5234],
+  ["Lviv", "Ukraine", 49.8397, 24.0297],
+  ["Odesa", "Ukraine", 46.4825, 30.7233],
+  ["Chișinău", "Moldova", 47.0105, 28.8638],
+  ["Minsk", "Belarus", 53.9006, 27.559],
+  ["Moscow", "Russia", 55.7558, 37.6173],
+  ["Saint Petersburg", "Russia", 59.9311, 30.3609],
+  ["Tbilisi", "Georgia", 41.7151, 44.8271],
+  ["Yerevan", "Armenia", 40.1792, 44.4991],
+  ["Baku", "Azerbaijan", 40.4093, 49.8671],
+
+  // Middle East & Africa
+  ["Dubai", "United Arab Emirates", 25.2048, 55.2708],
+  ["Abu Dhabi", "United Arab Emirates", 24.4539, 54.3773],
+  ["Doha", "Qatar", 25.2854, 51.531],
+  ["Riyadh", "Saudi Arabia", 24.7136, 46.6753],
+  ["Jeddah", "Saudi Arabia", 21.4858, 39.1925],
+  ["Tel Aviv", "Israel", 32.0853, 34.7818],
+  ["Jerusalem", "Israel", 31.7683, 35.2137],
+  ["Amman", "Jordan", 31.9454, 35.9284],
+  ["Beirut", "Lebanon", 33.8938, 35.5018],
+  ["Tehran", "Iran", 35.6892, 51.389],
+  ["Cairo", "Egypt", 30.0444, 31.2357],
+  ["Alexandria", "Egypt", 31.2001, 29.9187],
+  ["Marrakesh", "Morocco", 31.6295, -7.9811],
+  ["Casablanca", "Morocco", 33.5731, -7.5898],
+  ["Tunis", "Tunisia", 36.8065, 10.1815],
+  ["Algiers", "Algeria", 36.7538, 3.0588],
+  ["Lagos", "Nigeria", 6.5244, 3.3792],
+  ["Accra", "Ghana", 5.6037, -0.187],
+  ["Nairobi", "Kenya", -1.2921, 36.8219],
+  ["Addis Ababa", "Ethiopia", 8.9806, 38.7578],
+  ["Dar es Salaam", "Tanzania", -6.7924, 39.2083],
+  ["Johannesburg", "South Africa", -26.2041, 28.0473],
+  ["Cape Town", "South Africa", -33.9249, 18.4241],
+  ["Durban", "South Africa", -29.8587, 31.0218],
+
+  // Asia
+  ["Tokyo", "Japan", 35.6762, 139.6503],
+  ["Osaka", "Japan", 34.6937, 135.5023],
+  ["Kyoto", "Japan", 35.0116, 135.7681],
+  ["Sapporo", "Japan", 43.0618, 141.3545],
+  ["Seoul", "South Korea", 37.5665, 126.978],
+  ["Busan", "South Korea", 35.1796, 129.0756],
+  ["Beijing", "China", 39.9042, 116.4074],
+  ["Shanghai", "China", 31.2304, 121.4737],
+  ["Guangzhou", "China", 23.1291, 113.2644],
+  ["Shenzhen", "China", 22.5431, 114.0579],
+  ["Chengdu", "China", 30.5728, 104.0668],
+  ["Hong Kong", "China", 22.3193, 114.1694],
+  ["Taipei", "Taiwan", 25.033, 121.5654],
+  ["Manila", "Philippines", 14.5995, 120.9842],
+  ["Hanoi", "Vietnam", 21.0278, 105.8342],
+  ["Ho Chi Minh City", "Vietnam", 10.8231, 106.6297],
+  ["Bangkok", "Thailand", 13.7563, 100.5018],
+  ["Chiang Mai", "Thailand", 18.7883, 98.9853],
+  ["Phuket", "Thailand", 7.8804, 98.3923],
+  ["Kuala Lumpur", "Malaysia", 3.139, 101.6869],
+  ["Singapore", "Singapore", 1.3521, 103.8198],
+  ["Jakarta", "Indonesia", -6.2088, 106.8456],
+  ["Denpasar", "Indonesia", -8.6705, 115.2126],
+  ["Delhi", "India", 28.7041, 77.1025],
+  ["Mumbai", "India", 19.076, 72.8777],
+  ["Bengaluru", "India", 12.9716, 77.5946],
+  ["Chennai", "India", 13.0827, 80.2707],
+  ["Kolkata", "India", 22.5726, 88.3639],
+  ["Hyderabad", "India", 17.385, 78.4867],
+  ["Karachi", "Pakistan", 24.8607, 67.0011],
+  ["Lahore", "Pakistan", 31.5204, 74.3587],
+  ["Dhaka", "Bangladesh", 23.8103, 90.4125],
+  ["Colombo", "Sri Lanka", 6.9271, 79.8612],
+  ["Kathmandu", "Nepal", 27.7172, 85.324],
+  ["Almaty", "Kazakhstan", 43.222, 76.8512],
+  ["Tashkent", "Uzbekistan", 41.2995, 69.2401],
+
+  // Oceania
+  ["Sydney", "Australia", -33.8688, 151.2093],
+  ["Melbourne", "Australia", -37.8136, 144.9631],
+  ["Brisbane", "Australia", -27.4698, 153.0251],
+  ["Perth", "Australia", -31.9505, 115.8605],
+  ["Adelaide", "Australia", -34.9285, 138.6007],
+  ["Auckland", "New Zealand", -36.8485, 174.7633],
+  ["Wellington", "New Zealand", -41.2865, 174.7762],
+  ["Queenstown", "New Zealand", -45.0312, 168.6626],
+
+  // North America
+  ["New York", "United States", 40.7128, -74.006],
+  ["Los Angeles", "United States", 34.0522, -118.2437],
+  ["Chicago", "United States", 41.8781, -87.6298],
+  ["Houston", "United States", 29.7604, -95.3698],
+  ["Phoenix", "United States", 33.4484, -112.074],
+  ["Philadelphia", "United States", 39.9526, -75.1652],
+  ["San Antonio", "United States", 29.4241, -98.4936],
+  ["San Diego", "United States", 32.7157, -117.1611],
+  ["Dallas", "United States", 32.7767, -96.797],
+  ["Austin", "United States", 30.2672, -97.7431],
+  ["San Francisco", "United States", 37.7749, -122.4194],
+  ["San Jose", "United States", 37.3382, -121.8863],
+  ["Seattle", "United States", 47.6062, -122.3321],
+  ["Portland", "United States", 45.5152, -122.6784],
+  ["Denver", "United States", 39.7392, -104.9903],
+  ["Las Vegas", "United States", 36.1699, -115.1398],
+  ["Salt Lake City", "United States", 40.7608, -111.891],
+  ["Minneapolis", "United States", 44.9778, -93.265],
+  ["Detroit", "United States", 42.3314, -83.0458],
+  ["Boston", "United States", 42.3601, -71.0589],
+  ["Washington", "United States", 38.9072, -77.0369],
+  ["Atlanta", "United States", 33.749, -84.388],
+  ["Miami", "United States", 25.7617, -80.1918],
+  ["Orlando", "United States", 28.5383, -81.3792],
+  ["New Orleans", "United States", 29.9511, -90.0715],
+  ["Nashville", "United States", 36.1627, -86.7816],
+  ["Honolulu", "United States", 21.3069, -157.8583],
+  ["Anchorage", "United States", 61.2181, -149.9003],
+  ["Toronto", "Canada", 43.6532, -79.3832],
+  ["Montreal", "Canada", 45.5017, -73.5673],
+  ["Vancouver", "Canada", 49.2827, -123.1207],
+  ["Calgary", "Canada", 51.0447, -114.0719],
+  ["Ottawa", "Canada", 45.4215, -75.6972],
+  ["Mexico City", "Mexico", 19.4326, -99.1332],
+  ["Guadalajara", "Mexico", 20.6597, -103.3496],
+  ["Monterrey", "Mexico", 25.6866, -100.3161],
+  ["Cancún", "Mexico", 21.1619, -86.8515],
+  ["Havana", "Cuba", 23.1136, -82.3666],
+  ["San Juan", "Puerto Rico", 18.4655, -66.1057],
+  ["Panama City", "Panama", 8.9824, -79.5199],
+  ["San José", "Costa Rica", 9.9281, -84.0907],
+
+  // South America
+  ["São Paulo", "Brazil", -23.5505, -46.6333],
+  ["Rio de Janeiro", "Brazil", -22.9068, -43.1729],
+  ["Brasília", "Brazil", -15.7975, -47.8919],
+  ["Salvador", "Brazil", -12.9777, -38.5016],
+  ["Buenos Aires", "Argentina", -34.6037, -58.3816],
+  ["Córdoba", "Argentina", -31.4201, -64.1888],
+  ["Santiago", "Chile", -33.4489, -70.6693],
+  ["Lima", "Peru", -12.0464, -77.0428],
+  ["Cusco", "Peru", -13.532, -71.9675],
+  ["Bogotá", "Colombia", 4.711, -74.0721],
+  ["Medellín", "Colombia", 6.2442, -75.5812],
+  ["Quito", "Ecuador", -0.1807, -78.4678],
+  ["Caracas", "Venezuela", 10.4806, -66.9036],
+  ["Montevideo", "Uruguay", -34.9011, -56.1645],
+  ["La Paz", "Bolivia", -16.4897, -68.1193],
+];
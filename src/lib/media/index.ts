@@ -0,0 +1,704 @@
+import { ICropAspect, IMediaCrop, IMediaFile } from "@/types";
+import { CITIES } from "./cities";
+
+// ============================================================
+// VIDEO
+// ============================================================
+
+export const VIDEO_MAX_BYTES = 50 * 1024 * 1024;
+export const VIDEO_MAX_DURATION_SECONDS = 60;
+export const VIDEO_MIME_TYPES = ["video/mp4", "video/webm"];
+
+// Where in the clip the poster frame is taken, capped to half the duration
+// for very short clips.
+const POSTER_FRAME_SECONDS = 0.5;
+
+export const isVideoFile = (file: File) => VIDEO_MIME_TYPES.includes(file.type);
+
+const loadVideo = (file: File): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error(`Could not read video ${file.name}`));
+    video.src = URL.createObjectURL(file);
+  });
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute("src");
+  video.load();
+};
+
+// Returns a message describing why the file can't be posted, or null when it
+// is within the size and duration caps.
+export async function validateVideoFile(file: File): Promise<string | null> {
+  if (!isVideoFile(file)) return "Only MP4 and WebM videos are supported.";
+  if (file.size > VIDEO_MAX_BYTES) {
+    return `Videos must be under ${VIDEO_MAX_BYTES / (1024 * 1024)} MB.`;
+  }
+
+  try {
+    const video = await loadVideo(file);
+    const { duration } = video;
+    releaseVideo(video);
+
+    if (!Number.isFinite(duration) || duration > VIDEO_MAX_DURATION_SECONDS) {
+      return `Videos must be ${VIDEO_MAX_DURATION_SECONDS} seconds or shorter.`;
+    }
+
+    return null;
+  } catch (error) {
+    console.log(error);
+    return "This video could not be read.";
+  }
+}
+
+// Grabs a still frame as a JPEG so grids and link previews have an image to
+// show without loading the video.
+export async function captureVideoPoster(file: File): Promise<File> {
+  const video = await loadVideo(file);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error(`Could not seek video ${file.name}`));
+      video.currentTime = Math.min(POSTER_FRAME_SECONDS, video.duration / 2);
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.85)
+    );
+    if (!blob) throw Error(`Could not capture a poster for ${file.name}`);
+
+    const baseName = file.name.replace(/\.[^.]+$/, "");
+    return new File([blob], `${baseName}-poster.jpg`, { type: "image/jpeg" });
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+// ============================================================
+// IMAGES
+// ============================================================
+
+export type ImageOutputType = "image/webp" | "image/jpeg";
+
+export type ImageProcessingOptions = {
+  maxWidth: number;
+  maxHeight: number;
+  // Encoder quality between 0 and 1.
+  quality: number;
+  // Preferred format; browsers that can't encode WebP fall back to JPEG.
+  type?: ImageOutputType;
+};
+
+export type ProcessedImage = {
+  file: File;
+  width: number;
+  height: number;
+  originalSize: number;
+  processedSize: number;
+};
+
+export const POST_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 2048,
+  maxHeight: 2048,
+  quality: 0.82,
+  type: "image/webp",
+};
+
+export const AVATAR_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 400,
+  maxHeight: 400,
+  quality: 0.8,
+  type: "image/webp",
+};
+
+const PROCESSABLE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const isProcessableImage = (file: File) => PROCESSABLE_IMAGE_TYPES.includes(file.type);
+
+// Decoding with `imageOrientation: "from-image"` applies the EXIF orientation
+// to the pixels, so the re-encoded file (which carries no EXIF) stays upright.
+type DecodedImage = CanvasImageSource & { width: number; height: number };
+
+const decodeImage = async (file: File): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === "function") {
+    return createImageBitmap(file, { imageOrientation: "from-image" });
+  }
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(file);
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode image ${file.name}`));
+    };
+    image.src = url;
+  });
+};
+
+// Region of the decoded image kept by the crop recorded on the file, in pixels.
+const getCropRegion = (file: IMediaFile, image: DecodedImage) => {
+  const { x = 0, y = 0, width = 1, height = 1 } = file.crop ?? {};
+  return {
+    x: x * image.width,
+    y: y * image.height,
+    width: width * image.width,
+    height: height * image.height,
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+// JPEG has no alpha channel, so transparent areas are flattened onto white
+// instead of turning black.
+const flattenCanvas = (canvas: HTMLCanvasElement) => {
+  const flattened = document.createElement("canvas");
+  flattened.width = canvas.width;
+  flattened.height = canvas.height;
+
+  const context = flattened.getContext("2d");
+  if (!context) return canvas;
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, flattened.width, flattened.height);
+  context.drawImage(canvas, 0, 0);
+  return flattened;
+};
+
+export const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export async function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  name: string,
+  { quality, type = "image/webp" }: Pick<ImageProcessingOptions, "quality" | "type">
+): Promise<File> {
+  let blob = type === "image/webp" ? await canvasToBlob(canvas, type, quality) : null;
+
+  // Browsers without a WebP encoder silently hand back a PNG.
+  if (!blob || blob.type !== "image/webp") {
+    blob = await canvasToBlob(flattenCanvas(canvas), "image/jpeg", quality);
+  }
+  if (!blob) throw Error(`Could not encode ${name}`);
+
+  const extension = blob.type === "image/webp" ? "webp" : "jpg";
+  return new File([blob], `${name.replace(/\.[^.]+$/, "")}.${extension}`, {
+    type: blob.type,
+  });
+}
+
+// Crops, downsizes, applies the editor's edits and re-encodes an image before
+// upload, in a single encode.
+// Re-encoding also drops all metadata, including EXIF GPS. Formats the canvas
+// can't round-trip (GIF, SVG, ...) are passed through untouched; the uploaders
+// don't accept them.
+export async function processImage(
+  file: IMediaFile,
+  options: ImageProcessingOptions
+): Promise<ProcessedImage> {
+  if (!isProcessableImage(file)) {
+    return { file, width: 0, height: 0, originalSize: file.size, processedSize: file.size };
+  }
+
+  const image = await decodeImage(file);
+  const region = getCropRegion(file, image);
+  const { width, height } = fitWithin(
+    region.width,
+    region.height,
+    options.maxWidth,
+    options.maxHeight
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw Error("Canvas is not supported");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  if ("close" in image) image.close();
+  // Edits run on the downsized pixels, so the per-pixel pass stays cheap.
+  if (file.edits) applyEditsToCanvas(context, width, height, file.edits);
+
+  const processed = await encodeCanvas(canvas, file.name, options);
+
+  return {
+    file: processed,
+    width,
+    height,
+    originalSize: file.size,
+    processedSize: processed.size,
+  };
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// ============================================================
+// CROP
+// ============================================================
+
+export type CropAspectOption = {
+  aspect: ICropAspect;
+  ratio: number;
+};
+
+export const POST_CROP_ASPECTS: CropAspectOption[] = [
+  { aspect: "1:1", ratio: 1 },
+  { aspect: "4:5", ratio: 4 / 5 },
+  { aspect: "1.91:1", ratio: 1.91 },
+];
+
+export const AVATAR_CROP_ASPECTS: CropAspectOption[] = [{ aspect: "1:1", ratio: 1 }];
+
+export const getCropAspectRatio = (aspect: ICropAspect) =>
+  POST_CROP_ASPECTS.find((option) => option.aspect === aspect)?.ratio ?? 1;
+
+// The crop is only recorded on the file and applied when processImage encodes
+// the upload, so the picked image is compressed once. The preview is a small
+// rendering of the kept region for the uploader to show meanwhile.
+const PREVIEW_MAX_SIZE = 1080;
+const PREVIEW_QUALITY = 0.9;
+
+export type CroppedImage = {
+  file: IMediaFile;
+  previewUrl: string;
+};
+
+export async function cropImage(
+  image: HTMLImageElement,
+  file: File,
+  crop: IMediaCrop
+): Promise<CroppedImage> {
+  const sourceX = crop.x * image.naturalWidth;
+  const sourceY = crop.y * image.naturalHeight;
+  const sourceWidth = crop.width * image.naturalWidth;
+  const sourceHeight = crop.height * image.naturalHeight;
+  const { width, height } = fitWithin(
+    sourceWidth,
+    sourceHeight,
+    PREVIEW_MAX_SIZE,
+    PREVIEW_MAX_SIZE
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw Error("Canvas is not supported");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+
+  const preview = await encodeCanvas(canvas, file.name, { quality: PREVIEW_QUALITY });
+  // A new File over the same bytes, so the picked file stays uncropped for
+  // later re-crops.
+  const cropped: IMediaFile = new File([file], file.name, {
+    type: file.type,
+    lastModified: file.lastModified,
+  });
+  cropped.crop = crop;
+
+  return { file: cropped, previewUrl: URL.createObjectURL(preview) };
+}
+
+// ============================================================
+// EDITOR
+// ============================================================
+
+export type ImageAdjustments = {
+  // -100..100, 0 leaves the image unchanged.
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  warmth: number;
+  // 0..100
+  vignette: number;
+};
+
+export type PhotoFilter = {
+  name: string;
+  adjustments: Partial<ImageAdjustments>;
+  // 0..1 blend towards black and white / sepia tone.
+  grayscale?: number;
+  sepia?: number;
+};
+
+export type ImageEdits = {
+  filter: string;
+  adjustments: ImageAdjustments;
+};
+
+export const NO_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+  vignette: 0,
+};
+
+export const PHOTO_FILTERS: PhotoFilter[] = [
+  { name: "Normal", adjustments: {} },
+  { name: "Vivid", adjustments: { contrast: 20, saturation: 35 } },
+  { name: "Warm", adjustments: { warmth: 30, saturation: 10 } },
+  { name: "Cool", adjustments: { warmth: -30, contrast: 5 } },
+  { name: "Fade", adjustments: { brightness: 15, contrast: -30, saturation: -20 } },
+  { name: "Mono", adjustments: { contrast: 10 }, grayscale: 1 },
+  { name: "Noir", adjustments: { contrast: 45, brightness: -10, vignette: 40 }, grayscale: 1 },
+  { name: "Vintage", adjustments: { contrast: -10, warmth: 15, vignette: 30 }, sepia: 0.45 },
+];
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+  filter: PHOTO_FILTERS[0].name,
+  adjustments: NO_ADJUSTMENTS,
+};
+
+export const hasImageEdits = ({ filter, adjustments }: ImageEdits) =>
+  filter !== DEFAULT_IMAGE_EDITS.filter ||
+  Object.values(adjustments).some((value) => value !== 0);
+
+const clampAdjustment = (value: number, min = -100) => Math.min(100, Math.max(min, value));
+
+// Filter presets and the user's sliders stack, so "Warm" plus +20 warmth is
+// warmer than either alone.
+const combineEdits = ({ filter, adjustments }: ImageEdits) => {
+  const preset = PHOTO_FILTERS.find((option) => option.name === filter) ?? PHOTO_FILTERS[0];
+  const combine = (key: keyof ImageAdjustments) =>
+    clampAdjustment(
+      adjustments[key] + (preset.adjustments[key] ?? 0),
+      key === "vignette" ? 0 : -100
+    );
+
+  return {
+    brightness: combine("brightness"),
+    contrast: combine("contrast"),
+    saturation: combine("saturation"),
+    warmth: combine("warmth"),
+    vignette: combine("vignette"),
+    grayscale: preset.grayscale ?? 0,
+    sepia: preset.sepia ?? 0,
+  };
+};
+
+// Draws `image` into `canvas` at the given size with the edits applied to the
+// pixels, so the result can be previewed or encoded as is. Done by hand rather
+// than with `context.filter`, which not every browser supports.
+export function renderImageEdits(
+  canvas: HTMLCanvasElement,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  edits: ImageEdits
+) {
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw Error("Canvas is not supported");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, width, height);
+  applyEditsToCanvas(context, width, height, edits);
+}
+
+// Applies the edits to the pixels already drawn in the context.
+function applyEditsToCanvas(
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  edits: ImageEdits
+) {
+  if (!hasImageEdits(edits)) return;
+
+  const { brightness, contrast, saturation, warmth, vignette, grayscale, sepia } =
+    combineEdits(edits);
+  const brightnessFactor = 1 + brightness / 200;
+  const contrastLevel = contrast * 1.28;
+  const contrastFactor = (259 * (contrastLevel + 255)) / (255 * (259 - contrastLevel));
+  const saturationFactor = 1 + saturation / 100;
+  const warmthShift = warmth * 0.3;
+  const vignetteStrength = (vignette / 100) * 0.8;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxDistance = Math.hypot(centerX, centerY);
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const { data } = imageData;
+
+  for (let index = 0; index < data.length; index += 4) {
+    let r = data[index] * brightnessFactor;
+    let g = data[index + 1] * brightnessFactor;
+    let b = data[index + 2] * brightnessFactor;
+
+    r = contrastFactor * (r - 128) + 128;
+    g = contrastFactor * (g - 128) + 128;
+    b = contrastFactor * (b - 128) + 128;
+
+    const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    r = gray + (r - gray) * saturationFactor;
+    g = gray + (g - gray) * saturationFactor;
+    b = gray + (b - gray) * saturationFactor;
+
+    r += warmthShift;
+    b -= warmthShift;
+
+    if (grayscale > 0) {
+      const tone = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r += (tone - r) * grayscale;
+      g += (tone - g) * grayscale;
+      b += (tone - b) * grayscale;
+    }
+
+    if (sepia > 0) {
+      const sepiaR = 0.393 * r + 0.769 * g + 0.189 * b;
+      const sepiaG = 0.349 * r + 0.686 * g + 0.168 * b;
+      const sepiaB = 0.272 * r + 0.534 * g + 0.131 * b;
+      r += (sepiaR - r) * sepia;
+      g += (sepiaG - g) * sepia;
+      b += (sepiaB - b) * sepia;
+    }
+
+    if (vignetteStrength > 0) {
+      const pixel = index / 4;
+      const x = pixel % width;
+      const y = Math.floor(pixel / width);
+      const distance = Math.hypot(x - centerX, y - centerY) / maxDistance;
+      // Untouched in the middle, easing into the darkest corners.
+      const falloff = Math.max(0, (distance - 0.4) / 0.6);
+      const shade = 1 - vignetteStrength * falloff * falloff;
+      r *= shade;
+      g *= shade;
+      b *= shade;
+    }
+
+    // Uint8ClampedArray clamps to 0..255 on assignment.
+    data[index] = r;
+    data[index + 1] = g;
+    data[index + 2] = b;
+  }
+
+  context.putImageData(imageData, 0, 0);
+}
+
+// Decodes the region kept by the file's crop, so edits are previewed and
+// applied to what will be posted.
+export async function loadEditableImage(file: IMediaFile): Promise<DecodedImage> {
+  const image = await decodeImage(file);
+  if (!file.crop) return image;
+
+  const region = getCropRegion(file, image);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(region.width);
+  canvas.height = Math.round(region.height);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw Error("Canvas is not supported");
+
+  context.drawImage(
+    image,
+    region.x,
+    region.y,
+    region.width,
+    region.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+  if ("close" in image) image.close();
+
+  return canvas;
+}
+
+export type EditedImage = {
+  file: IMediaFile;
+  previewUrl: string;
+};
+
+// Like the crop, the edits are only recorded on the file (with the filter, so
+// the post can show which one was used) and baked in by processImage. The
+// preview is rendered small, so applying doesn't wait on a full-size pass.
+export async function applyImageEdits(
+  file: IMediaFile,
+  edits: ImageEdits
+): Promise<EditedImage> {
+  const image = await loadEditableImage(file);
+  const canvas = document.createElement("canvas");
+
+  try {
+    const { width, height } = fitWithin(
+      image.width,
+      image.height,
+      PREVIEW_MAX_SIZE,
+      PREVIEW_MAX_SIZE
+    );
+    renderImageEdits(canvas, image, width, height, edits);
+  } finally {
+    if ("close" in image) image.close();
+  }
+
+  const preview = await encodeCanvas(canvas, file.name, { quality: PREVIEW_QUALITY });
+  const edited: IMediaFile = new File([file], file.name, {
+    type: file.type,
+    lastModified: file.lastModified,
+  });
+  edited.crop = file.crop;
+  if (hasImageEdits(edits)) {
+    edited.edits = edits;
+    edited.filter = edits.filter;
+  }
+
+  return { file: edited, previewUrl: URL.createObjectURL(preview) };
+}
+
+// ============================================================
+// METADATA
+// ============================================================
+// Every image upload is re-encoded through a canvas (see processImage), which
+// writes no EXIF, so GPS coordinates and camera details never leave the
+// device. Location is only read from the original file when the user opts in,
+// and only a city name is kept. Video files are uploaded as recorded.
+
+export type GpsCoordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+// EXIF lives in an APP1 segment near the start of a JPEG.
+const EXIF_SCAN_BYTES = 256 * 1024;
+const MAX_CITY_DISTANCE_KM = 75;
+
+const readGpsFromTiff = (view: DataView, tiffStart: number): GpsCoordinates | null => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const uint16 = (offset: number) => view.getUint16(offset, littleEndian);
+  const uint32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+  const findEntry = (ifdOffset: number, tag: number) => {
+    const start = tiffStart + ifdOffset;
+    const count = uint16(start);
+
+    for (let index = 0; index < count; index++) {
+      const entry = start + 2 + index * 12;
+      if (uint16(entry) === tag) return entry;
+    }
+    return null;
+  };
+
+  const gpsPointer = findEntry(uint32(tiffStart + 4), 0x8825);
+  if (gpsPointer === null) return null;
+  const gpsIfd = uint32(gpsPointer + 8);
+
+  // Degrees, minutes and seconds are three RATIONALs; the N/S/E/W reference
+  // is a short ASCII value stored inline in the entry.
+  const readCoordinate = (valueTag: number, refTag: number) => {
+    const entry = findEntry(gpsIfd, valueTag);
+    const refEntry = findEntry(gpsIfd, refTag);
+    if (entry === null || refEntry === null) return null;
+
+    const valuesStart = tiffStart + uint32(entry + 8);
+    const rational = (index: number) => {
+      const denominator = uint32(valuesStart + index * 8 + 4);
+      return denominator ? uint32(valuesStart + index * 8) / denominator : 0;
+    };
+
+    const degrees = rational(0) + rational(1) / 60 + rational(2) / 3600;
+    const ref = String.fromCharCode(view.getUint8(refEntry + 8));
+    return ref === "S" || ref === "W" ? -degrees : degrees;
+  };
+
+  const latitude = readCoordinate(0x0002, 0x0001);
+  const longitude = readCoordinate(0x0004, 0x0003);
+  if (latitude === null || longitude === null) return null;
+  if (latitude === 0 && longitude === 0) return null;
+
+  return { latitude, longitude };
+};
+
+export async function readExifGps(file: File): Promise<GpsCoordinates | null> {
+  if (file.type !== "image/jpeg") return null;
+
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Start of scan: image data follows, no more metadata segments.
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+
+      // "Exif" followed by two padding bytes, then the TIFF header.
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return readGpsFromTiff(view, offset + 10);
+      }
+
+      offset += 2 + view.getUint16(offset + 2);
+    }
+
+    return null;
+  } catch (error) {
+    // Truncated or malformed EXIF just means there's nothing to suggest.
+    console.log(error);
+    return null;
+  }
+}
+
+const distanceKm = (from: GpsCoordinates, to: GpsCoordinates) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const latitudeDelta = toRadians(to.latitude - from.latitude);
+  const longitudeDelta = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(longitudeDelta / 2) ** 2;
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Nearest bundled city, so no coordinates are sent to a geocoding service.
+export function reverseGeocode(coordinates: GpsCoordinates): string | null {
+  let nearest: { label: string; distance: number } | null = null;
+
+  for (const [name, country, latitude, longitude] of CITIES) {
+    const distance = distanceKm(coordinates, { latitude, longitude });
+    if (!nearest || distance < nearest.distance) {
+      nearest = { label: `${name}, ${country}`, distance };
+    }
+  }
+
+  return nearest && nearest.distance <= MAX_CITY_DISTANCE_KM ? nearest.label : null;
+}
+
+export async function getPhotoLocation(files: File[]): Promise<string | null> {
+  for (const file of files) {
+    const coordinates = await readExifGps(file);
+    const location = coordinates && reverseGeocode(coordinates);
+    if (location) return location;
+  }
+
+  return null;
+}
@@ -0,0 +1,177 @@
+import { normalizeTag } from "@/lib/utils";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type RankablePost = {
+  $id: string;
+  $createdAt: string;
+  creator?: { $id: string } | null;
+  likes?: unknown[];
+  // Stored on the post and kept in sync as comments are added and removed.
+  commentsCount?: number | null;
+  tags?: string[];
+};
+
+export type RankingContext = {
+  now: number;
+  viewerId: string;
+  followingIds: string[];
+  interactedCreatorIds: string[];
+  // Tag -> share of the viewer's liked posts carrying it, between 0 and 1.
+  tagAffinity: Record<string, number>;
+};
+
+export type SearchableUser = {
+  $id: string;
+  name?: string;
+  username?: string;
+};
+
+export type SuggestionSignals = {
+  // How many accounts the viewer follows also follow the candidate.
+  mutualCount: number;
+  followerCount: number;
+  // Posts published within SUGGESTION_ACTIVITY_WINDOW_DAYS.
+  recentPostCount: number;
+};
+
+// ============================================================
+// WEIGHTS
+// ============================================================
+
+export const RECENCY_HALF_LIFE_HOURS = 24;
+
+const LIKE_VELOCITY_WEIGHT = 1;
+const COMMENT_VELOCITY_WEIGHT = 3;
+const FOLLOW_WEIGHT = 1.5;
+const INTERACTION_WEIGHT = 0.75;
+const TAG_AFFINITY_WEIGHT = 1;
+
+export const SUGGESTION_ACTIVITY_WINDOW_DAYS = 14;
+
+const MUTUAL_WEIGHT = 2;
+const FOLLOWER_COUNT_WEIGHT = 0.5;
+const ACTIVITY_WEIGHT = 0.75;
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+// ============================================================
+// SCORING
+// ============================================================
+
+export const getAgeInHours = (post: RankablePost, now: number) =>
+  Math.max(0, (now - new Date(post.$createdAt).getTime()) / HOUR_IN_MS);
+
+export const getRecencyScore = (ageInHours: number) =>
+  Math.pow(0.5, ageInHours / RECENCY_HALF_LIFE_HOURS);
+
+export const getEngagementScore = (post: RankablePost, ageInHours: number) => {
+  const likeVelocity = (post.likes?.length ?? 0) / Math.max(ageInHours, 1);
+  const commentVelocity = (post.commentsCount ?? 0) / Math.max(ageInHours, 1);
+
+  return Math.log1p(
+    likeVelocity * LIKE_VELOCITY_WEIGHT +
+      commentVelocity * COMMENT_VELOCITY_WEIGHT
+  );
+};
+
+export const getAffinityScore = (post: RankablePost, context: RankingContext) => {
+  const creatorId = post.creator?.$id;
+  if (!creatorId || creatorId === context.viewerId) return 0;
+
+  const followScore = context.followingIds.includes(creatorId) ? FOLLOW_WEIGHT : 0;
+  const interactionScore = context.interactedCreatorIds.includes(creatorId)
+    ? INTERACTION_WEIGHT
+    : 0;
+  const tagScore = Math.max(
+    0,
+    ...(post.tags ?? []).map((tag) => context.tagAffinity[normalizeTag(tag)] ?? 0)
+  );
+
+  return followScore + interactionScore + tagScore * TAG_AFFINITY_WEIGHT;
+};
+
+export const scorePost = (post: RankablePost, context: RankingContext) => {
+  const ageInHours = getAgeInHours(post, context.now);
+
+  return (
+    getRecencyScore(ageInHours) *
+    (1 + getEngagementScore(post, ageInHours)) *
+    (1 + getAffinityScore(post, context))
+  );
+};
+
+// Highest score first; ties fall back to the newer post.
+export const rankPosts = <T extends RankablePost>(
+  posts: T[],
+  context: RankingContext
+): T[] =>
+  posts
+    .map((post) => ({ post, score: scorePost(post, context) }))
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.post.$createdAt.localeCompare(a.post.$createdAt)
+    )
+    .map(({ post }) => post);
+
+// Mutual follows dominate; follower count and activity are log-damped so a
+// handful of very popular accounts don't crowd out everyone else.
+export const scoreSuggestion = (signals: SuggestionSignals) =>
+  signals.mutualCount * MUTUAL_WEIGHT +
+  Math.log1p(signals.followerCount) * FOLLOWER_COUNT_WEIGHT +
+  Math.log1p(signals.recentPostCount) * ACTIVITY_WEIGHT;
+
+// ============================================================
+// CONTEXT HELPERS
+// ============================================================
+
+export const buildTagAffinity = (likedPosts: RankablePost[]) => {
+  const counts: Record<string, number> = {};
+
+  likedPosts.forEach((post) =>
+    new Set((post.tags ?? []).map(normalizeTag)).forEach((tag) => {
+      counts[tag] = (counts[tag] ?? 0) + 1;
+    })
+  );
+
+  const affinity: Record<string, number> = {};
+  Object.entries(counts).forEach(([tag, count]) => {
+    affinity[tag] = count / likedPosts.length;
+  });
+
+  return affinity;
+};
+
+export const getInteractedCreatorIds = (likedPosts: RankablePost[]) =>
+  Array.from(
+    new Set(
+      likedPosts
+        .map((post) => post.creator?.$id)
+        .filter((id): id is string => !!id)
+    )
+  );
+
+// ============================================================
+// USER SEARCH
+// ============================================================
+
+// Exact handle matches first, then prefixes of the handle, the full name and
+// any word in the name. Anything else only matched the full-text index.
+export const scoreUserMatch = (user: SearchableUser, searchTerm: string) => {
+  const query = searchTerm.trim().toLowerCase().replace(/^@/, "");
+  if (!query) return 0;
+
+  const username = (user.username ?? "").toLowerCase();
+  const name = (user.name ?? "").toLowerCase();
+
+  if (username === query) return 100;
+  if (name === query) return 90;
+  if (username.startsWith(query)) return 70 + (query.length / username.length) * 10;
+  if (name.startsWith(query)) return 60 + (query.length / name.length) * 10;
+  if (name.split(/\s+/).some((word) => word.startsWith(query))) return 50;
+  if (username.includes(query) || name.includes(query)) return 30;
+
+  return 10;
+};
@@ -3,9 +3,13 @@ import {
   useMutation,
   useQueryClient,
   useInfiniteQuery,
+  InfiniteData,
+  QueryClient,
+  QueryKey,
 } from "@tanstack/react-query";
 
 import { QUERY_KEYS } from "@/lib/react-query/queryKeys";
+import { toast } from "@/components/ui/use-toast";
 import {
   createUserAccount,
   signInAccount,
@@ -22,13 +26,77 @@ import {
   updateUser,
   getRecentPosts,
   getInfinitePosts,
+  getPostsByTag,
+  getFollowingPosts,
+  getRankedFeed,
+  updateFollowedTags,
+  getSuggestedUsers,
+  dismissSuggestion,
+  SuggestedUser,
   searchPosts,
+  PostSearchFilters,
+  searchTags,
+  getTrendingTags,
+  getSearchHistory,
+  recordRecentSearch,
+  recordProfileVisit,
+  removeSearchHistoryItem,
+  clearSearchHistory,
   savePost,
   deleteSavedPost,
   unfollowUser,
   followUser,
+  isFollowingA,
+  hasRequestedFollow,
+  getFollowRequests,
+  approveFollowRequest,
+  declineFollowRequest,
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  getUserRelationship,
+  getBlockedUsers,
+  getMutedUsers,
+  getFollowingIds,
+  getFollowList,
+  FollowListType,
+  getFollowersCount,
+  getFollowingsCount,
+  getCommentsByPost,
+  getLatestComments,
+  getViewerHiddenUserIds,
+  getNotifications,
+  getUnreadNotificationsCount,
+  markNotificationsRead,
+  createComment,
+  editComment,
+  deleteComment,
+  likeComment,
+  unlikeComment,
+  searchUsersByUsername,
+  searchUsers,
+  UserSearchSort,
+  CommentData,
+  CommentSort,
+  CommentsPage,
+  PostUploadOptions,
 } from "@/lib/appwrite/api";
-import { INewPost, INewUser, IUpdatePost, IUpdateUser } from "@/types";
+import { Models } from "appwrite";
+import { INewPost, INewUser, IUpdatePost, IUpdateUser, IUser } from "@/types";
+import { OPTIMISTIC_COMMENT_ID_PREFIX } from "@/lib/utils";
+
+// The viewer's blocks are cached here so comment pages, feed previews and
+// search pages don't each list them again.
+const fetchViewerBlockedIds = async (queryClient: QueryClient) => {
+  const hidden = await queryClient.fetchQuery({
+    queryKey: [QUERY_KEYS.GET_VIEWER_HIDDEN_USER_IDS],
+    queryFn: getViewerHiddenUserIds,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return hidden.blocked;
+};
 
 // ============================================================
 // AUTH QUERIES
@@ -61,40 +129,132 @@ export const useGetPosts = () => {
   return useInfiniteQuery({
     queryKey: [QUERY_KEYS.GET_INFINITE_POSTS],
     queryFn: getInfinitePosts as any,
-    getNextPageParam: (lastPage: any) => {
-      if (lastPage && lastPage.documents.length === 0) {
-        return null;
-      }
+    getNextPageParam: (lastPage: any) => lastPage?.nextCursor ?? undefined,
+  });
+};
 
-      const lastId = lastPage.documents[lastPage.documents.length - 1].$id;
-      return lastId;
-    },
+export const useSearchPosts = (searchTerm: string, filters: PostSearchFilters = {}) => {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.SEARCH_POSTS, searchTerm, filters],
+    queryFn: ({ pageParam }) => searchPosts(searchTerm, filters, pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!searchTerm.trim(),
+  });
+};
+
+export const useSearchTags = (searchTerm: string, limit?: number) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.SEARCH_TAGS, searchTerm, limit],
+    queryFn: () => searchTags(searchTerm, limit),
+    enabled: !!searchTerm.trim(),
   });
 };
 
-export const useSearchPosts = (searchTerm: string) => {
+export const useGetTrendingTags = (limit?: number) => {
   return useQuery({
-    queryKey: [QUERY_KEYS.SEARCH_POSTS, searchTerm],
-    queryFn: () => searchPosts(searchTerm),
-    enabled: !!searchTerm,
+    queryKey: [QUERY_KEYS.GET_TRENDING_TAGS, limit],
+    queryFn: () => getTrendingTags(limit),
+    staleTime: 5 * 60 * 1000,
   });
 };
 
-export const useGetRecentPosts = () => {
+export const useGetSearchHistory = (userId?: string) => {
   return useQuery({
-    queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
-    queryFn: getRecentPosts,
+    queryKey: [QUERY_KEYS.GET_SEARCH_HISTORY, userId],
+    queryFn: () => getSearchHistory(userId!),
+    enabled: !!userId,
+  });
+};
+
+const useSearchHistoryMutation = <TVariables extends { userId: string }>(
+  mutationFn: (variables: TVariables) => Promise<unknown>
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: (_data, { userId }) => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_SEARCH_HISTORY, userId],
+      });
+    },
+  });
+};
+
+export const useRecordRecentSearch = () =>
+  useSearchHistoryMutation(({ userId, searchTerm }: { userId: string; searchTerm: string }) =>
+    recordRecentSearch(userId, searchTerm)
+  );
+
+export const useRecordProfileVisit = () =>
+  useSearchHistoryMutation(({ userId, profileId }: { userId: string; profileId: string }) =>
+    recordProfileVisit(userId, profileId)
+  );
+
+export const useRemoveSearchHistoryItem = () =>
+  useSearchHistoryMutation(
+    ({
+      userId,
+      ...item
+    }: {
+      userId: string;
+      searchTerm?: string;
+      profileId?: string;
+    }) => removeSearchHistoryItem(userId, item)
+  );
+
+export const useClearSearchHistory = () =>
+  useSearchHistoryMutation(({ userId }: { userId: string }) => clearSearchHistory(userId));
+
+export const useGetRecentPosts = (followedTags: string[] = []) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_RECENT_POSTS, followedTags],
+    queryFn: () => getRecentPosts(followedTags),
+  });
+};
+
+export const useGetFollowingPosts = (followingIds?: string[]) => {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_FOLLOWING_POSTS, followingIds],
+    queryFn: ({ pageParam }) => getFollowingPosts(followingIds ?? [], pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!followingIds,
+  });
+};
+
+export const useGetRankedFeed = (viewer?: Models.Document | null) => {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_RANKED_FEED, viewer?.$id],
+    queryFn: ({ pageParam }) => getRankedFeed(viewer!, pageParam),
+    getNextPageParam: (lastPage) =>
+      lastPage.remaining.length > 0 ? lastPage.remaining : undefined,
+    enabled: !!viewer,
+  });
+};
+
+export const useGetPostsByTag = (tag: string) => {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_POSTS_BY_TAG, tag],
+    queryFn: ({ pageParam }) => getPostsByTag(tag, pageParam),
+    getNextPageParam: (lastPage) => lastPage?.nextCursor ?? undefined,
+    enabled: !!tag,
   });
 };
 
 export const useCreatePost = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (post: INewPost) => createPost(post),
+    mutationFn: ({ post, upload }: { post: INewPost; upload?: PostUploadOptions }) =>
+      createPost(post, upload),
     onSuccess: () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_FOLLOWING_POSTS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_RANKED_FEED],
+      });
     },
   });
 };
@@ -118,7 +278,8 @@ export const useGetUserPosts = (userId?: string) => {
 export const useUpdatePost = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (post: IUpdatePost) => updatePost(post),
+    mutationFn: ({ post, upload }: { post: IUpdatePost; upload?: PostUploadOptions }) =>
+      updatePost(post, upload),
     onSuccess: (data) => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.GET_POST_BY_ID, data?.$id],
@@ -130,12 +291,18 @@ export const useUpdatePost = () => {
 export const useDeletePost = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ postId, imageId }: { postId?: string; imageId: string }) =>
-      deletePost(postId, imageId),
+    mutationFn: ({ postId, fileIds }: { postId?: string; fileIds: string[] }) =>
+      deletePost(postId, fileIds),
     onSuccess: () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_FOLLOWING_POSTS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_RANKED_FEED],
+      });
     },
   });
 };
@@ -204,6 +371,270 @@ export const useDeleteSavedPost = () => {
   });
 };
 
+// ============================================================
+// COMMENT QUERIES
+// ============================================================
+
+export const useGetPostComments = (postId?: string, sort: CommentSort = "oldest") => {
+  const queryClient = useQueryClient();
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_POST_COMMENTS, postId, sort],
+    queryFn: async ({ pageParam }) =>
+      getCommentsByPost(postId!, pageParam, sort, await fetchViewerBlockedIds(queryClient)),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!postId,
+  });
+};
+
+// The two newest comments, used for the previews on feed cards.
+// Cards only ask for the preview when the post's stored count says there are
+// comments to show.
+export const useGetPostCommentPreview = (postId: string, hasComments: boolean) => {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_POST_COMMENT_PREVIEW, postId],
+    queryFn: async () =>
+      getLatestComments(postId, await fetchViewerBlockedIds(queryClient), 2),
+    enabled: !!postId && hasComments,
+  });
+};
+
+type PostCommentsData = InfiniteData<CommentsPage>;
+type PostCommentsSnapshot = [QueryKey, PostCommentsData | undefined][];
+
+// Applies `patch` to every cached sort order of a post's comments and returns
+// the previous state so the change can be rolled back.
+const patchPostComments = async (
+  queryClient: QueryClient,
+  postId: string,
+  patch: (data: PostCommentsData, sort: CommentSort) => PostCommentsData
+): Promise<PostCommentsSnapshot> => {
+  const queryKey = [QUERY_KEYS.GET_POST_COMMENTS, postId];
+  await queryClient.cancelQueries({ queryKey });
+
+  const snapshot = queryClient.getQueriesData<PostCommentsData>({ queryKey });
+  snapshot.forEach(([key, data]) => {
+    if (data) {
+      queryClient.setQueryData(key, patch(data, key[2] as CommentSort));
+    }
+  });
+
+  return snapshot;
+};
+
+const restorePostComments = (
+  queryClient: QueryClient,
+  snapshot?: PostCommentsSnapshot
+) => {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+};
+
+const mapComments = (
+  data: PostCommentsData,
+  fn: (comments: CommentData[]) => CommentData[],
+  totalDelta = 0
+): PostCommentsData => ({
+  ...data,
+  pages: data.pages.map((page) => ({
+    ...page,
+    documents: fn(page.documents),
+    total: page.total + totalDelta,
+  })),
+});
+
+const invalidateCommentCounts = (queryClient: QueryClient, postId: string) => {
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_POST_COMMENTS, postId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_POST_COMMENT_PREVIEW, postId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_POST_BY_ID, postId],
+  });
+};
+
+export const useCreateComment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      postId,
+      commentText,
+      parentId,
+    }: {
+      postId: string;
+      commentText: string;
+      parentId?: string | null;
+      author: IUser;
+    }) => createComment(commentText, postId, parentId),
+    onMutate: async ({ postId, commentText, parentId, author }) => {
+      const optimisticComment: CommentData = {
+        commentId: `${OPTIMISTIC_COMMENT_ID_PREFIX}${Date.now()}`,
+        userId: author.id,
+        userName: author.name,
+        userUsername: author.username,
+        userImage: author.imageUrl || "/assets/icons/profile-placeholder.svg",
+        postId,
+        commentText,
+        createdAt: new Date().toISOString(),
+        parentId: parentId ?? null,
+        isDeleted: false,
+        likes: [],
+        mentions: [],
+      };
+
+      const snapshot = await patchPostComments(
+        queryClient,
+        postId,
+        (data, sort) => {
+          const lastPage = data.pages.length - 1;
+          return {
+            ...data,
+            pages: data.pages.map((page, index) => ({
+              ...page,
+              total: page.total + 1,
+              documents:
+                sort === "newest" && index === 0
+                  ? [optimisticComment, ...page.documents]
+                  : sort !== "newest" && index === lastPage
+                  ? [...page.documents, optimisticComment]
+                  : page.documents,
+            })),
+          };
+        }
+      );
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      restorePostComments(queryClient, context?.snapshot);
+      toast({ title: "Posting comment failed. Please try again." });
+    },
+    onSettled: (_data, _error, { postId }) => {
+      invalidateCommentCounts(queryClient, postId);
+    },
+  });
+};
+
+export const useEditComment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      commentId,
+      commentText,
+    }: {
+      postId: string;
+      commentId: string;
+      commentText: string;
+    }) => editComment(commentId, { commentText }),
+    onMutate: async ({ postId, commentId, commentText }) => {
+      const snapshot = await patchPostComments(queryClient, postId, (data) =>
+        mapComments(data, (comments) =>
+          comments.map((comment) =>
+            comment.commentId === commentId ? { ...comment, commentText } : comment
+          )
+        )
+      );
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      restorePostComments(queryClient, context?.snapshot);
+      toast({ title: "Editing comment failed. Please try again." });
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_POST_COMMENTS, postId],
+      });
+    },
+  });
+};
+
+export const useDeleteComment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ postId, commentId }: { postId: string; commentId: string }) =>
+      deleteComment(commentId, postId),
+    onMutate: async ({ postId, commentId }) => {
+      const snapshot = await patchPostComments(queryClient, postId, (data) => {
+        const hasReplies = data.pages.some((page) =>
+          page.documents.some((comment) => comment.parentId === commentId)
+        );
+
+        // Mirrors deleteComment: parents with replies become tombstones.
+        return hasReplies
+          ? mapComments(data, (comments) =>
+              comments.map((comment) =>
+                comment.commentId === commentId
+                  ? { ...comment, commentText: "", isDeleted: true }
+                  : comment
+              )
+            )
+          : mapComments(
+              data,
+              (comments) =>
+                comments.filter((comment) => comment.commentId !== commentId),
+              -1
+            );
+      });
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      restorePostComments(queryClient, context?.snapshot);
+      toast({ title: "Deleting comment failed. Please try again." });
+    },
+    onSettled: (_data, _error, { postId }) => {
+      invalidateCommentCounts(queryClient, postId);
+    },
+  });
+};
+
+const useToggleCommentLike = (liked: boolean) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      commentId,
+      userId,
+    }: {
+      postId: string;
+      commentId: string;
+      userId: string;
+    }) => (liked ? likeComment(commentId, userId) : unlikeComment(commentId, userId)),
+    onMutate: async ({ postId, commentId, userId }) => {
+      const snapshot = await patchPostComments(queryClient, postId, (data) =>
+        mapComments(data, (comments) =>
+          comments.map((comment) =>
+            comment.commentId === commentId
+              ? {
+                  ...comment,
+                  likes: liked
+                    ? [...comment.likes.filter((id) => id !== userId), userId]
+                    : comment.likes.filter((id) => id !== userId),
+                }
+              : comment
+          )
+        )
+      );
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      restorePostComments(queryClient, context?.snapshot);
+      toast({ title: "Updating like failed. Please try again." });
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_POST_COMMENTS, postId],
+      });
+    },
+  });
+};
+
+export const useLikeComment = () => useToggleCommentLike(true);
+
+export const useUnlikeComment = () => useToggleCommentLike(false);
+
 // ============================================================
 // USER QUERIES
 // ============================================================
@@ -222,6 +653,40 @@ export const useGetUsers = (limit?: number) => {
   });
 };
 
+export const useSearchUsers = (searchTerm: string, sort: UserSearchSort) => {
+  const queryClient = useQueryClient();
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.SEARCH_USERS, searchTerm, sort],
+    queryFn: async ({ pageParam }) => {
+      const [viewer, blockedIds] = await Promise.all([
+        queryClient.fetchQuery({
+          queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+          queryFn: getCurrentUser,
+          staleTime: 5 * 60 * 1000,
+        }),
+        fetchViewerBlockedIds(queryClient),
+      ]);
+
+      return searchUsers(
+        searchTerm,
+        sort,
+        pageParam,
+        viewer ? [viewer.$id, ...blockedIds] : blockedIds
+      );
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!searchTerm.trim(),
+  });
+};
+
+export const useSearchUsersByUsername = (prefix: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.SEARCH_USERS_BY_USERNAME, prefix],
+    queryFn: () => searchUsersByUsername(prefix),
+    enabled: !!prefix,
+  });
+};
+
 export const useGetUserById = (userId: string) => {
   return useQuery({
     queryKey: [QUERY_KEYS.GET_USER_BY_ID, userId],
@@ -245,19 +710,109 @@ export const useUpdateUser = () => {
   });
 };
 
+export const useUpdateFollowedTags = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      userId,
+      followedTags,
+    }: {
+      userId: string;
+      followedTags: string[];
+    }) => updateFollowedTags(userId, followedTags),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
+      });
+    },
+  });
+};
+
+export const useGetSuggestedUsers = (viewer?: Models.Document | null, limit?: number) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_SUGGESTED_USERS, viewer?.$id, limit],
+    queryFn: () => getSuggestedUsers(viewer!, limit),
+    enabled: !!viewer,
+  });
+};
+
+export const useDismissSuggestion = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      userId,
+      suggestedUserId,
+    }: {
+      userId: string;
+      suggestedUserId: string;
+    }) => dismissSuggestion(userId, suggestedUserId),
+    onMutate: async ({ suggestedUserId }) => {
+      const queryKey = [QUERY_KEYS.GET_SUGGESTED_USERS];
+      await queryClient.cancelQueries({ queryKey });
+
+      const snapshot = queryClient.getQueriesData<SuggestedUser[]>(queryKey);
+      queryClient.setQueriesData<SuggestedUser[]>(queryKey, (suggestions) =>
+        suggestions?.filter(({ user }) => user.$id !== suggestedUserId)
+      );
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      toast({ title: "Could not dismiss suggestion. Please try again." });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+      });
+    },
+    // Refetching fills the slot the dismissed card left behind.
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_SUGGESTED_USERS],
+      });
+    },
+  });
+};
+
+const invalidateFollowQueries = (queryClient: QueryClient, targetUserId: string) => {
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.IS_FOLLOWING, targetUserId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.HAS_REQUESTED_FOLLOW, targetUserId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_FOLLOWERS_COUNT, targetUserId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_FOLLOWINGS_COUNT],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_FOLLOWING_IDS],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_FOLLOW_LIST],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_SUGGESTED_USERS],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_FOLLOWING_POSTS],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [QUERY_KEYS.GET_RANKED_FEED],
+  });
+};
+
 export const useFollowUser = () => {
   const queryClient = useQueryClient();
   return useMutation((userId: string) => followUser(userId), {
-    onSuccess: (data, _userId) => {
-      if (data && data.$id) {
-        const userId = data.$id;
-        queryClient.invalidateQueries({
-          queryKey: [QUERY_KEYS.GET_CURRENT_USER],
-        });
-        queryClient.invalidateQueries({
-          queryKey: [QUERY_KEYS.GET_USER_BY_ID, userId],
-        });
-      }
+    onSuccess: (_data, userId) => {
+      invalidateFollowQueries(queryClient, userId);
     },
   });
 };
@@ -265,34 +820,94 @@ export const useFollowUser = () => {
 export const useUnfollowUser = () => {
   const queryClient = useQueryClient();
   return useMutation((userId: string) => unfollowUser(userId), {
-    onSuccess: (data, _userId) => {
-      if (data && data.$id) {
-        const userId = data.$id;
+    onSuccess: (_data, userId) => {
+      invalidateFollowQueries(queryClient, userId);
+    },
+  });
+};
+
+export const useHasRequestedFollow = (targetUserId: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.HAS_REQUESTED_FOLLOW, targetUserId],
+    queryFn: () => hasRequestedFollow(targetUserId),
+    enabled: !!targetUserId,
+  });
+};
+
+export const useGetFollowRequests = (userId?: string) => {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_FOLLOW_REQUESTS, userId],
+    queryFn: ({ pageParam }) => getFollowRequests(userId!, pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!userId,
+  });
+};
+
+const useRespondToFollowRequest = (approve: boolean) => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (requesterId: string) =>
+      approve ? approveFollowRequest(requesterId) : declineFollowRequest(requesterId),
+    {
+      onSuccess: (_data, requesterId) => {
         queryClient.invalidateQueries({
-          queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+          queryKey: [QUERY_KEYS.GET_FOLLOW_REQUESTS],
         });
         queryClient.invalidateQueries({
-          queryKey: [QUERY_KEYS.GET_USER_BY_ID, userId],
+          queryKey: [QUERY_KEYS.GET_FOLLOWERS_COUNT],
         });
-      }
-    },
+        queryClient.invalidateQueries({
+          queryKey: [QUERY_KEYS.GET_FOLLOW_LIST],
+        });
+        queryClient.invalidateQueries({
+          queryKey: [QUERY_KEYS.HAS_REQUESTED_FOLLOW, requesterId],
+        });
+      },
+    }
+  );
+};
+
+export const useApproveFollowRequest = () => useRespondToFollowRequest(true);
+
+export const useDeclineFollowRequest = () => useRespondToFollowRequest(false);
+
+export const useGetFollowingIds = (userId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_FOLLOWING_IDS, userId],
+    queryFn: () => getFollowingIds(userId!),
+    enabled: !!userId,
   });
 };
 
+export const useGetFollowList = (
+  userId: string,
+  type: FollowListType,
+  viewerId: string
+) => {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_FOLLOW_LIST, userId, type, viewerId],
+    queryFn: ({ pageParam }) => getFollowList(userId, type, viewerId, pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!userId && !!viewerId,
+  });
+};
 
-export const useFollowerCount = () => {
-  return useQuery(["followerCount"], async () => {
-    const currentUser = await getCurrentUser();
-    return currentUser?.followerId.length || 0;
+export const useGetFollowersCount = (userId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_FOLLOWERS_COUNT, userId],
+    queryFn: () => getFollowersCount(userId!),
+    enabled: !!userId,
   });
 };
 
-export const useFollowingCount = () => {
-  return useQuery(["followingCount"], async () => {
-    const currentUser = await getCurrentUser();
-    return currentUser?.followingId.length || 0;
+export const useGetFollowingsCount = (userId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_FOLLOWINGS_COUNT, userId],
+    queryFn: () => getFollowingsCount(userId!),
+    enabled: !!userId,
   });
 };
+
 export const useCurrentUser = () => {
   return useQuery({
     queryKey: [QUERY_KEYS.GET_CURRENT_USER],
@@ -302,20 +917,128 @@ export const useCurrentUser = () => {
 
 export const useIsFollowingQuery = (targetUserId: string) => {
   return useQuery<boolean, Error>(
-    ["isFollowing", targetUserId],
-    async () => {
-      const currentUser = await getCurrentUser();
-      if (!currentUser || !currentUser.followingId) {
-        return false;
-      }
-      return currentUser.followingId.includes(targetUserId);
-    },
+    [QUERY_KEYS.IS_FOLLOWING, targetUserId],
+    () => isFollowingA(targetUserId),
     {
       staleTime: 30000,
       refetchOnWindowFocus: false,
       refetchOnMount: false,
       refetchInterval: false,
-      onSuccess: () => {},
+      enabled: !!targetUserId,
     }
   );
 };
+
+// ============================================================
+// BLOCK & MUTE QUERIES
+// ============================================================
+
+export const useGetUserRelationship = (targetUserId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_USER_RELATIONSHIP, targetUserId],
+    queryFn: () => getUserRelationship(targetUserId!),
+    enabled: !!targetUserId,
+  });
+};
+
+export const useGetBlockedUsers = (userId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_BLOCKED_USERS, userId],
+    queryFn: () => getBlockedUsers(userId!),
+    enabled: !!userId,
+  });
+};
+
+export const useGetMutedUsers = (userId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_MUTED_USERS, userId],
+    queryFn: () => getMutedUsers(userId!),
+    enabled: !!userId,
+  });
+};
+
+const HIDEABLE_CONTENT_KEYS = [
+  QUERY_KEYS.GET_RECENT_POSTS,
+  QUERY_KEYS.GET_INFINITE_POSTS,
+  QUERY_KEYS.SEARCH_POSTS,
+  QUERY_KEYS.GET_FOLLOWING_POSTS,
+  QUERY_KEYS.GET_RANKED_FEED,
+  QUERY_KEYS.GET_POSTS_BY_TAG,
+  QUERY_KEYS.GET_USER_POSTS,
+  QUERY_KEYS.GET_POST_COMMENTS,
+  QUERY_KEYS.GET_POST_COMMENT_PREVIEW,
+  QUERY_KEYS.GET_NOTIFICATIONS,
+];
+
+const useUserRelationshipMutation = (
+  mutationFn: (targetUserId: string) => Promise<{ status: string }>,
+  seversFollows: boolean
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(mutationFn, {
+    onSuccess: (_data, targetUserId) => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_USER_RELATIONSHIP, targetUserId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_BLOCKED_USERS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_MUTED_USERS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_VIEWER_HIDDEN_USER_IDS],
+      });
+      HIDEABLE_CONTENT_KEYS.forEach((key) =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+
+      if (seversFollows) {
+        invalidateFollowQueries(queryClient, targetUserId);
+      }
+    },
+  });
+};
+
+export const useBlockUser = () => useUserRelationshipMutation(blockUser, true);
+
+export const useUnblockUser = () => useUserRelationshipMutation(unblockUser, false);
+
+export const useMuteUser = () => useUserRelationshipMutation(muteUser, false);
+
+export const useUnmuteUser = () => useUserRelationshipMutation(unmuteUser, false);
+
+// ============================================================
+// NOTIFICATION QUERIES
+// ============================================================
+
+export const useGetNotifications = (userId?: string) => {
+  const queryClient = useQueryClient();
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEYS.GET_NOTIFICATIONS, userId],
+    queryFn: async ({ pageParam }) =>
+      getNotifications(userId!, pageParam, await fetchViewerBlockedIds(queryClient)),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!userId,
+  });
+};
+
+export const useGetUnreadNotificationsCount = (userId?: string) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GET_UNREAD_NOTIFICATIONS_COUNT, userId],
+    queryFn: () => getUnreadNotificationsCount(userId!),
+    enabled: !!userId,
+  });
+};
+
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (notificationIds: string[]) => markNotificationsRead(notificationIds),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.GET_UNREAD_NOTIFICATIONS_COUNT],
+      });
+    },
+  });
+};
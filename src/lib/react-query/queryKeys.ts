@@ -6,22 +6,49 @@ export enum QUERY_KEYS {
   GET_CURRENT_USER = "getCurrentUser",
   GET_USERS = "getUsers",
   GET_USER_BY_ID = "getUserById",
+  GET_SUGGESTED_USERS = "getSuggestedUsers",
 
   // POST KEYS
   GET_POSTS = "getPosts",
   GET_INFINITE_POSTS = "getInfinitePosts",
   GET_RECENT_POSTS = "getRecentPosts",
+  GET_FOLLOWING_POSTS = "getFollowingPosts",
+  GET_RANKED_FEED = "getRankedFeed",
   GET_POST_BY_ID = "getPostById",
   GET_USER_POSTS = "getUserPosts",
+  GET_POSTS_BY_TAG = "getPostsByTag",
   GET_FILE_PREVIEW = "getFilePreview",
 
+  // COMMENT KEYS
+  GET_POST_COMMENTS = "getPostComments",
+  GET_POST_COMMENT_PREVIEW = "getPostCommentPreview",
+
   //  SEARCH KEYS
   SEARCH_POSTS = "getSearchPosts",
+  SEARCH_USERS_BY_USERNAME = "searchUsersByUsername",
+  SEARCH_USERS = "searchUsers",
+  SEARCH_TAGS = "searchTags",
+  GET_SEARCH_HISTORY = "getSearchHistory",
+  GET_TRENDING_TAGS = "getTrendingTags",
 
   // FOLLOW KEYS
   FOLLOW_USER = "followUser", 
   UNFOLLOW_USER = "unfollowUser", 
   GET_FOLLOWERS_COUNT = "getFollowersCount",
   GET_FOLLOWINGS_COUNT = "getFollowingsCount",
+  GET_FOLLOWING_IDS = "getFollowingIds",
+  GET_FOLLOW_LIST = "getFollowList",
   IS_FOLLOWING= "isFollowing",
+  HAS_REQUESTED_FOLLOW = "hasRequestedFollow",
+  GET_FOLLOW_REQUESTS = "getFollowRequests",
+
+  // BLOCK & MUTE KEYS
+  GET_USER_RELATIONSHIP = "getUserRelationship",
+  GET_BLOCKED_USERS = "getBlockedUsers",
+  GET_MUTED_USERS = "getMutedUsers",
+  GET_VIEWER_HIDDEN_USER_IDS = "getViewerHiddenUserIds",
+
+  // NOTIFICATION KEYS
+  GET_NOTIFICATIONS = "getNotifications",
+  GET_UNREAD_NOTIFICATIONS_COUNT = "getUnreadNotificationsCount",
 }
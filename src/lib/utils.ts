@@ -1,5 +1,9 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { Models } from "appwrite";
+
+import type { CommentData, CommentThread } from "@/lib/appwrite/api";
+import type { IMention, IPostMedia } from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -56,3 +60,111 @@ export const multiFormatDateString = (timestamp: string = ""): string => {
 export const checkIsLiked = (likeList: string[], userId: string) => {
   return likeList.includes(userId);
 };
+
+// Nests replies under their parent comment. Replies whose parent is missing
+// (e.g. removed before threading existed) are surfaced at the top level.
+export const buildCommentThreads = (comments: CommentData[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+  comments.forEach((comment) =>
+    threads.set(comment.commentId, { ...comment, replies: [] })
+  );
+
+  const roots: CommentThread[] = [];
+  threads.forEach((thread) => {
+    const parent = thread.parentId ? threads.get(thread.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+
+  return roots;
+};
+
+export const countReplies = (thread: CommentThread): number => {
+  return thread.replies.reduce(
+    (total, reply) => total + 1 + countReplies(reply),
+    0
+  );
+};
+
+// Comments shown before the server has created them carry a placeholder id
+// that the API can't act on.
+export const OPTIMISTIC_COMMENT_ID_PREFIX = "optimistic-";
+
+export const isOptimisticComment = (comment: CommentData) =>
+  comment.commentId.startsWith(OPTIMISTIC_COMMENT_ID_PREFIX);
+
+// ============================================================
+// MENTIONS
+// ============================================================
+
+// `@` must start the text or follow whitespace, so emails don't count, and a
+// trailing `.` is treated as punctuation. The username is the second group.
+export const MENTION_REGEX = /(^|\s)@(\w(?:[\w.]*\w)?)/g;
+
+export const extractMentionUsernames = (text: string = ""): string[] => {
+  const usernames = Array.from(text.matchAll(MENTION_REGEX), (match) => match[2]);
+  return Array.from(new Set(usernames));
+};
+
+// Mentions are stored on documents as JSON strings in a string array attribute.
+export const serializeMentions = (mentions: IMention[]): string[] =>
+  mentions.map((mention) => JSON.stringify(mention));
+
+export const parseMentions = (values: string[] = []): IMention[] =>
+  values.flatMap((value) => {
+    try {
+      const mention = JSON.parse(value);
+      return mention?.userId && mention?.username ? [mention as IMention] : [];
+    } catch (error) {
+      return [];
+    }
+  });
+
+// ============================================================
+// MEDIA
+// ============================================================
+
+export const MAX_POST_MEDIA = 10;
+
+// Post media is stored like mentions, one JSON string per item in display
+// order. Posts created before carousels only have `imageId`/`imageUrl`.
+export const serializeMedia = (media: IPostMedia[]): string[] =>
+  media.map((item) => JSON.stringify(item));
+
+export const getPostMedia = (post?: Models.Document): IPostMedia[] => {
+  if (!post) return [];
+
+  const media = (post.media ?? []).flatMap((value: string) => {
+    try {
+      const item = JSON.parse(value);
+      return item?.id && item?.url ? [item as IPostMedia] : [];
+    } catch (error) {
+      return [];
+    }
+  });
+
+  if (media.length > 0) return media;
+
+  return post.imageId ? [{ id: post.imageId, url: post.imageUrl }] : [];
+};
+
+export const isVideoMedia = (item: IPostMedia) => item.type === "video";
+
+// The still shown wherever a single image stands in for the item.
+export const getMediaThumbnail = (item: IPostMedia) => item.posterUrl ?? item.url;
+
+export const getMediaFileIds = (media: IPostMedia[]): string[] =>
+  media.flatMap((item) => (item.posterId ? [item.id, item.posterId] : [item.id]));
+
+// ============================================================
+// TAGS
+// ============================================================
+
+export const normalizeTag = (tag: string): string =>
+  tag.replace(/\s+/g, "").replace(/^#+/, "").toLowerCase();
+
+export const normalizeTags = (tags: string = ""): string[] =>
+  Array.from(new Set(tags.split(",").map(normalizeTag).filter(Boolean)));
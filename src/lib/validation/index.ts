@@ -1,5 +1,8 @@
 import * as z from "zod";
 
+import { IPostMediaInput } from "@/types";
+import { MAX_POST_MEDIA } from "@/lib/utils";
+
 // ============================================================
 // USER
 // ============================================================
@@ -21,6 +24,7 @@ export const ProfileValidation = z.object({
   username: z.string().min(2, { message: "Name must be at least 2 characters." }),
   email: z.string().email(),
   bio: z.string(),
+  isPrivate: z.boolean(),
 });
 
 // ============================================================
@@ -28,6 +32,12 @@ export const ProfileValidation = z.object({
 // ============================================================
 export const PostValidation = z.object({
   caption: z.string().min(5, { message: "Minimum 5 characters." }).max(2200, { message: "Maximum 2,200 caracters" }),
-  file: z.custom<File[]>(),
+  media: z
+    .custom<IPostMediaInput[]>()
+    .refine((media) => media.length > 0, { message: "Add at least one photo or video." })
+    .refine((media) => media.length <= MAX_POST_MEDIA, {
+      message: `Maximum ${MAX_POST_MEDIA} items.`,
+    }),
+  location: z.string(),
   tags: z.string(),
 });
@@ -1,3 +1,5 @@
+import type { ImageEdits } from "@/lib/media";
+
 export type INavLink = {
   imgURL: string;
   route: string;
@@ -11,12 +13,51 @@ export type IUpdateUser = {
   imageId: string;
   imageUrl: URL | string;
   file: File[];
+  isPrivate: boolean;
+};
+
+export type IPostMediaType = "image" | "video";
+
+export type ICropAspect = "1:1" | "4:5" | "1.91:1";
+
+// The kept region as fractions of the source image, so it stays valid
+// whatever size the upload is later scaled to.
+export type IMediaCrop = {
+  aspect: ICropAspect;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type IPostMedia = {
+  id: string;
+  url: string;
+  // Missing on items stored before video support, which are all images.
+  type?: IPostMediaType;
+  posterId?: string;
+  posterUrl?: string;
+  crop?: IMediaCrop;
+  // Name of the editor filter applied before upload.
+  filter?: string;
+};
+
+// A file picked in the post form, with any edits made to it before upload.
+// The crop and edits are only recorded here; processImage applies them.
+export type IMediaFile = File & {
+  crop?: IMediaCrop;
+  filter?: string;
+  edits?: ImageEdits;
 };
 
+// Media picked in the post form: files still to upload, or media already
+// stored on the post being edited.
+export type IPostMediaInput = IMediaFile | IPostMedia;
+
 export type INewPost = {
   userId: string;
   caption: string;
-  file: File[];
+  media: IMediaFile[];
   location?: string;
   tags?: string;
 };
@@ -24,9 +65,7 @@ export type INewPost = {
 export type IUpdatePost = {
   postId: string;
   caption: string;
-  imageId: string;
-  imageUrl: URL;
-  file: File[];
+  media: IPostMediaInput[];
   location?: string;
   tags?: string;
 };
@@ -38,6 +77,7 @@ export type IUser = {
   email: string;
   imageUrl: string;
   bio: string;
+  isPrivate: boolean;
 };
 
 export type INewUser = {
@@ -46,3 +86,8 @@ export type INewUser = {
   username: string;
   password: string;
 };
+
+export type IMention = {
+  userId: string;
+  username: string;
+};